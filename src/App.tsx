@@ -1,72 +1,151 @@
 // src/App.tsx
-import { useRef, useState, useCallback, useEffect } from 'react';
-import PDFViewer from './components/PDFViewer';
-import { pdfjs } from "react-pdf";
-import pdfWorker from "pdfjs-dist/build/pdf.worker?url";
+import { useRef, useState, useCallback, useEffect, useMemo } from 'react';
+import PDFViewer, {
+   type CitationHighlightResult,
+   type PDFDocumentInfo,
+   type PDFLoadState,
+   type PDFViewerHandle
+} from './components/PDFViewer';
 import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
 import { Input } from '@/components/ui/input';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { Send, Moon, Sun } from 'lucide-react';
+import { Send, Moon, Sun, Square, X, MessageSquarePlus, PanelLeftClose, PanelRightClose } from 'lucide-react';
+import {
+   createChatProvider,
+   SELECTION_ACTIONS,
+   streamChatMessage,
+   verifyCitations,
+   type ChatDocumentContext,
+   type Citation,
+   type Message,
+   type SelectionAction,
+   type SelectionContext
+} from '@/lib/chat';
+import { forgetDocumentIndex, loadDocumentIndex } from '@/lib/retrieval';
+import { deleteDocumentAnnotations } from '@/lib/annotations';
+import {
+   conversationToHtml,
+   conversationToMarkdown,
+   conversationToPdf,
+   numberFootnotes,
+   type ExportedConversation
+} from '@/lib/conversationExport';
+import { downloadFile, fileNameBase } from '@/lib/download';
+import DocumentSidebar from './components/DocumentSidebar';
+import ConversationMenu from './components/ConversationMenu';
+import CitationPreview from './components/CitationPreview';
+import MessageSources from './components/MessageSources';
+import MessageContent from './components/MessageContent';
+import ExportMenu, { type ExportFormat } from './components/ExportMenu';
+import CompareMenu from './components/CompareMenu';
+import SplitHandle from './components/SplitHandle';
+import MobileTabs, { type MobileTab } from './components/MobileTabs';
+import { useDocumentLibrary, type LibraryDocument } from './hooks/useDocumentLibrary';
+import { useConversations } from './hooks/useConversations';
+import { useLinkedScroll } from './hooks/useLinkedScroll';
+import { useAnnouncer } from './hooks/useAnnouncer';
+import { useChatShortcuts } from './hooks/useChatShortcuts';
+import { useMediaQuery } from './hooks/useMediaQuery';
+import { useSplitLayout } from './hooks/useSplitLayout';
 // import 'react-pdf/dist/Page/AnnotationLayer.css';
 // import 'react-pdf/dist/Page/TextLayer.css';
 
-// Set up PDF.js worker
-pdfjs.GlobalWorkerOptions.workerSrc = pdfWorker;
+// Questions offered on text selected in the document
+const selectionActions = Object.entries(SELECTION_ACTIONS).map(([id, { label }]) => ({ id, label }));
 
-type Citation = {
-   id: number;
-   text: string;
-   page: number;
-};
+// Below this width the library, document and chat become tabs
+const NARROW_SCREEN = '(max-width: 767px)';
+const PANE_IDS: Record<MobileTab, string> = { library: 'library-pane', document: 'document-pane', chat: 'chat-pane' };
 
-type Message = {
-   id: string;
-   content: string;
-   isUser: boolean;
-   timestamp: Date;
-   citations?: Citation[];
-};
+// Resolves once React has rendered and the browser has laid out a state change
+const afterLayout = () => new Promise(resolve => requestAnimationFrame(() => requestAnimationFrame(resolve)));
 
-// Sample PDF file - replace with your actual PDF
-const samplePdf = "/assets/report.pdf";
-
-// Sample responses with citations based on Maersk Q2 2025 Interim Report
-const sampleResponses: Message[] = [
-   {
-      id: '1',
-      content: 'The report shows that EBITDA improvements were driven by operational performance, including volume growth, cost control, and margin improvements across Ocean, Logistics & Services, and Terminals segments [1][2].',
-      isUser: false,
-      timestamp: new Date(),
-      citations: [
-         { id: 1, text: 'Maersk’s results continued to improve year-on-year', page: 3 },
-         { id: 2, text: 'EBITDA increased to USD 2.3 bn (USD 2.1 bn)', page: 5 }
-      ]
-   },
-   {
-      id: '2',
-      content: 'The gain on sale of non-current assets was USD 25 million in Q2 2025, significantly lower than USD 208 million in Q2 2024, but these amounts are reported separately under EBIT and not included in EBITDA [3].',
-      isUser: false,
-      timestamp: new Date(),
-      citations: [
-         { id: 3, text: 'Gain on sale of non-current assets', page: 15 }
-      ]
-   },
-   {
-      id: '3',
-      content: 'EBITDA for Q2 2025 increased to USD 2.3 billion from USD 2.1 billion in the prior year, with Ocean, Logistics & Services, and Terminals all contributing to the growth [1][2].',
-      isUser: false,
-      timestamp: new Date(),
-      citations: [
-         { id: 1, text: 'Maersk’s results continued to improve year-on-year', page: 3 },
-         { id: 2, text: 'EBITDA increased to USD 2.3 bn (USD 2.1 bn)', page: 5 }
-      ]
+// Spoken name of an [n] marker, e.g. "Citation 2, page 5"
+const citationLabel = (citation: Citation, documentTitle?: string) => {
+   const where = `Citation ${citation.id}, ${documentTitle ? `${documentTitle}, ` : ''}page ${citation.page}`;
+   switch (citation.verification?.status) {
+      case 'relocated': return `${where}, moved from page ${citation.verification.originalPage}`;
+      case 'fuzzy': return `${where}, approximate match`;
+      case 'not-found': return `${where}, not found in the document`;
+      default: return where;
    }
-];
+};
+
+// What the chat provider is told about a document
+const toDocumentContext = ({ id, name, title, source }: LibraryDocument): ChatDocumentContext => ({
+   id,
+   source: typeof source === 'string' ? source : name,
+   title
+});
 
 function App() {
-   const pdfViewerRef = useRef<any>(null);
-   const [messages, setMessages] = useState<Message[]>(sampleResponses);
+   const pdfViewerRef = useRef<PDFViewerHandle>(null);
+   const compareViewerRef = useRef<PDFViewerHandle>(null);
+   const library = useDocumentLibrary();
+   // Answers are looked up in the text of whichever document the question was asked about
+   const documentsRef = useRef(library.documents);
+   documentsRef.current = library.documents;
+   // Passwords entered in the viewer, so protected documents can be indexed too
+   const passwordsRef = useRef(new Map<string, string>());
+   const getDocumentIndex = useCallback((id: string) => {
+      const document = documentsRef.current.find(doc => doc.id === id);
+      if (!document) return Promise.reject(new Error('This document is no longer in the library.'));
+      return loadDocumentIndex(id, document.source, passwordsRef.current.get(id));
+   }, []);
+   const chatProvider = useMemo(
+      () => createChatProvider({ getDocumentIndex: ({ id }) => getDocumentIndex(id) }),
+      [getDocumentIndex]
+   );
+   const { activeDocument, setDocumentTitle } = library;
+   const documentTitles = useMemo(
+      () => new Map(library.documents.map(doc => [doc.id, doc.title ?? doc.name])),
+      [library.documents]
+   );
+   const getDocumentTitle = useCallback((id: string) => documentTitles.get(id), [documentTitles]);
+   // Second document shown side by side; closes by itself when it's removed or opened as the main one
+   const [compareId, setCompareId] = useState<string | null>(null);
+   const compareDocument = library.documents.find(doc => doc.id === compareId && doc.id !== activeDocument.id);
+   const compareDocumentId = compareDocument?.id;
+   const linkedScroll = useLinkedScroll(pdfViewerRef, compareViewerRef, [activeDocument.id, compareDocumentId]);
+   // Each document keeps its own saved chat threads
+   const chat = useConversations(activeDocument.id);
+   const { activeConversation } = chat;
+   const messages = activeConversation?.messages ?? [];
+   // Citations without a document id point into the conversation's own document
+   const citedPagesIn = useCallback((documentId: string) => messages.flatMap(message =>
+      message.citations
+         ?.filter(citation => (citation.documentId ?? activeDocument.id) === documentId)
+         .map(citation => citation.page) ?? []
+   ), [messages, activeDocument.id]);
+   const citedPages = useMemo(() => citedPagesIn(activeDocument.id), [citedPagesIn, activeDocument.id]);
+   const compareCitedPages = useMemo(
+      () => (compareDocumentId ? citedPagesIn(compareDocumentId) : undefined),
+      [citedPagesIn, compareDocumentId]
+   );
    const [inputMessage, setInputMessage] = useState('');
+   const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+   const abortControllerRef = useRef<AbortController | null>(null);
+   const inputRef = useRef<HTMLInputElement>(null);
+   const messagesRef = useRef<HTMLDivElement>(null);
+   const { announcement, announce } = useAnnouncer();
+   useChatShortcuts({ inputRef, messagesRef });
+   // Side by side on wide screens, one pane at a time on narrow ones
+   const isNarrow = useMediaQuery(NARROW_SCREEN);
+   const [mobileTab, setMobileTab] = useState<MobileTab>('document');
+   const split = useSplitLayout();
+   const splitRef = useRef<HTMLDivElement>(null);
+   const showLibrary = !isNarrow || mobileTab === 'library';
+   const showDocument = isNarrow ? mobileTab === 'document' : split.collapsed !== 'document';
+   const showChat = isNarrow ? mobileTab === 'chat' : split.collapsed !== 'chat';
+   const isSplit = !isNarrow && showDocument && showChat;
+   const verifyingRef = useRef(new Set<string>());
+   // Replies whose citations couldn't be checked, left alone until a document opens again
+   const unverifiableRef = useRef(new Set<string>());
+   const [citationNotice, setCitationNotice] = useState<string | null>(null);
+   const [exportError, setExportError] = useState<string | null>(null);
+   const [documentStatus, setDocumentStatus] = useState<PDFLoadState['status']>('loading');
+   const documentUnavailable = documentStatus === 'error' || documentStatus === 'password';
    const [darkMode, setDarkMode] = useState(() => {
       // Check for saved theme preference or use system preference
       if (typeof window !== 'undefined') {
@@ -93,162 +172,655 @@ function App() {
       }
    }, [darkMode]);
 
-   // Handle citation click to highlight text in PDF
-   const handleCitationClick = useCallback((citation: Citation) => {
-      if (pdfViewerRef.current) {
-         // Store the highlight result
-         const highlightResult = pdfViewerRef.current.highlightText(citation.text);
+   // Check each finished reply's citations against the document text before they're clicked
+   const { updateMessages } = chat;
+   const activeConversationId = activeConversation?.id;
+   useEffect(() => {
+      if (!activeConversationId) return;
+
+      const unverified = messages.filter(message =>
+         !message.isUser &&
+         message.id !== streamingMessageId &&
+         !verifyingRef.current.has(message.id) &&
+         !unverifiableRef.current.has(message.id) &&
+         message.citations?.some(citation => !citation.verification)
+      );
 
-         // Show a dialog when text is not found
-         if (!highlightResult || !highlightResult.found) {
-            alert(`The reference "${citation.text}" could not be found on page ${citation.page}.`);
-         }
+      // Each citation is checked against the text of the document it names
+      const verify = async (citations: Citation[]) => {
+         const documentIds = [...new Set(citations.map(citation => citation.documentId ?? activeDocument.id))];
+         const indexes = new Map(await Promise.all(documentIds.map(async id => [id, await getDocumentIndex(id)] as const)));
+         return citations.map(citation =>
+            verifyCitations([citation], indexes.get(citation.documentId ?? activeDocument.id)?.pages ?? [])[0]);
+      };
+
+      for (const message of unverified) {
+         verifyingRef.current.add(message.id);
+         verify(message.citations ?? [])
+            .then(citations => updateMessages(activeConversationId, thread => thread.map(m => (
+               m.id === message.id ? { ...m, citations } : m
+            ))))
+            // Citations stay unmarked when the document text can't be read
+            .catch(() => unverifiableRef.current.add(message.id))
+            .finally(() => verifyingRef.current.delete(message.id));
       }
-   }, []);
+   }, [messages, streamingMessageId, activeConversationId, activeDocument.id, getDocumentIndex, updateMessages]);
 
-   // Format message content with clickable citations
-   const formatMessageContent = (content: string, citations?: Citation[]) => {
-      if (!citations || citations.length === 0) return content;
-
-      // Replace [n] with clickable spans
-      return content.split(/(\[\d+\])/g).map((part, index) => {
-         const match = part.match(/\[(\d+)\]/);
-         if (match) {
-            const citationId = parseInt(match[1], 10);
-            const citation = citations.find(c => c.id === citationId);
-            if (citation) {
-               return (
-                  <span
-                     key={index}
-                     className="text-blue-600 hover:underline cursor-pointer"
-                     onClick={() => handleCitationClick(citation)}
-                  >
-                     {part}
-                  </span>
-               );
-            }
-         }
-         return part;
-      });
+   // The open viewer showing a document, or null when it isn't open
+   const viewerFor = useCallback((documentId = activeDocument.id) => {
+      if (documentId === activeDocument.id) return pdfViewerRef.current;
+      if (documentId === compareDocumentId) return compareViewerRef.current;
+      return null;
+   }, [activeDocument.id, compareDocumentId]);
+
+   // Handle citation click to highlight text in whichever pane shows the cited document
+   const handleCitationClick = useCallback(async (citation: Citation) => {
+      const viewer = viewerFor(citation.documentId);
+      setCitationNotice(null);
+      if (!viewer) {
+         const title = citation.documentId && getDocumentTitle(citation.documentId);
+         setCitationNotice(title
+            ? `The reference [${citation.id}] is from "${title}". Compare with that document to see it.`
+            : `The reference [${citation.id}] is from a document that is no longer in the library.`);
+         return;
+      }
+
+      // Bring the document into view first, so there are pages to highlight on
+      if (!showDocument) {
+         if (isNarrow) setMobileTab('document');
+         else split.setCollapsed(null);
+         await afterLayout();
+      }
+
+      // Fuzzy matches highlight the document's own wording rather than the quote
+      const text = citation.verification?.matchedText ?? citation.text;
+      let result: CitationHighlightResult;
+      try {
+         result = await viewer.highlightCitation({ text, page: citation.page });
+      } catch {
+         setCitationNotice(`Couldn't read the document to find the reference [${citation.id}].`);
+         return;
+      }
+
+      // Report where the reference actually is when it isn't on the cited page
+      if (!result.found) {
+         const pages = [...result.searchedPages].sort((a, b) => a - b);
+         const searched = pages.length > 1 ? `pages ${pages[0]}–${pages[pages.length - 1]}` : `page ${pages[0] ?? citation.page}`;
+         setCitationNotice(`The reference "${citation.text}" could not be found on ${searched}.`);
+      } else if (result.page !== citation.page) {
+         setCitationNotice(`The reference [${citation.id}] was found on page ${result.page} instead of page ${citation.page}.`);
+      } else {
+         announce(`Citation ${citation.id} highlighted on page ${result.page}.`);
+      }
+   }, [viewerFor, getDocumentTitle, announce, showDocument, isNarrow, split.setCollapsed]);
+
+   // Notices about where a citation is are read out as well as shown
+   useEffect(() => {
+      if (citationNotice) announce(citationNotice);
+   }, [citationNotice, announce]);
+
+   // Render the page region a citation points at, using the text it was verified against
+   const renderCitationPreview = useCallback((citation: Citation) => {
+      const text = citation.verification?.matchedText ?? citation.text;
+      return viewerFor(citation.documentId)?.renderCitationPreview({ text, page: citation.page }) ?? Promise.resolve(null);
+   }, [viewerFor]);
+
+   // Clickable [n] marker, coloured by how well the citation checked out
+   const renderCitationMarker = useCallback((citation: Citation, label: string) => {
+      const status = citation.verification?.status;
+      const documentTitle = citation.documentId && getDocumentTitle(citation.documentId);
+      // Keyed on the verified page so a corrected citation renders a fresh preview
+      return (
+         <CitationPreview
+            key={`${citation.page}:${status ?? ''}`}
+            citation={citation}
+            renderPreview={renderCitationPreview}
+            documentTitle={documentTitle}
+         >
+            <button
+               type="button"
+               className={cn(
+                  'rounded-sm hover:underline cursor-pointer focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                  !status && 'text-blue-400',
+                  status === 'verified' && 'text-blue-600',
+                  status === 'relocated' && 'text-blue-600 underline decoration-dotted',
+                  status === 'fuzzy' && 'text-amber-600 dark:text-amber-400 underline decoration-dotted',
+                  status === 'not-found' && 'text-red-600 dark:text-red-400 line-through'
+               )}
+               data-citation={citation.id}
+               data-citation-status={status ?? 'pending'}
+               aria-label={citationLabel(citation, documentTitle)}
+               onClick={() => handleCitationClick(citation)}
+            >
+               {label}
+            </button>
+         </CitationPreview>
+      );
+   }, [handleCitationClick, renderCitationPreview, getDocumentTitle]);
+
+   // On narrow screens picking a document from the library opens it
+   const handleSelectDocument = (id: string) => {
+      library.selectDocument(id);
+      if (isNarrow) setMobileTab('document');
+   };
+
+   // Remove a document together with its conversations
+   const handleRemoveDocument = (id: string) => {
+      library.removeDocument(id);
+      chat.deleteDocumentConversations(id);
+      forgetDocumentIndex(id);
+      deleteDocumentAnnotations(id);
+      passwordsRef.current.delete(id);
+   };
+
+   // Handle the viewer reading a document's metadata
+   const handleDocumentLoad = useCallback(({ title }: PDFDocumentInfo) => {
+      if (title) setDocumentTitle(activeDocument.id, title);
+      setCitationNotice(null);
+   }, [setDocumentTitle, activeDocument.id]);
+
+   const handleCompareDocumentLoad = useCallback(({ title }: PDFDocumentInfo) => {
+      if (title && compareDocumentId) setDocumentTitle(compareDocumentId, title);
+   }, [setDocumentTitle, compareDocumentId]);
+
+   // An opened document can be read again, e.g. now that its password is known, so
+   // replies that couldn't be checked before get another try
+   const handleDocumentOpened = (documentId: string | undefined, state: PDFLoadState) => {
+      if (state.status !== 'loaded') return;
+      if (documentId && state.password) passwordsRef.current.set(documentId, state.password);
+      unverifiableRef.current.clear();
+   };
+
+   // Questions need the document's text, so they wait until it opens
+   const handleLoadStateChange = (state: PDFLoadState) => {
+      handleDocumentOpened(activeDocument.id, state);
+      setDocumentStatus(state.status);
    };
 
    // Handle sending a new message
    const handleSendMessage = (e: React.FormEvent) => {
       e.preventDefault();
-      if (!inputMessage.trim()) return;
+      if (!inputMessage.trim() || streamingMessageId || documentUnavailable) return;
+
+      sendQuestion(inputMessage);
+      setInputMessage('');
+   };
+
+   // Ask about text selected in the document, keeping the selection with the question
+   const handleSelectionAction = (actionId: string, selection: SelectionContext) => {
+      if (streamingMessageId || documentUnavailable) return;
+      // The answer is in the chat, which has a tab of its own on narrow screens
+      if (isNarrow) setMobileTab('chat');
+      sendQuestion(SELECTION_ACTIONS[actionId as SelectionAction].question, selection);
+   };
 
+   // Send a question and stream the reply into its conversation
+   const sendQuestion = async (question: string, selection?: SelectionContext) => {
       // Add user message
       const newMessage: Message = {
          id: Date.now().toString(),
-         content: inputMessage,
+         content: question,
          isUser: true,
-         timestamp: new Date()
+         timestamp: new Date(),
+         ...(selection && { selection })
       };
 
-      setMessages(prev => [...prev, newMessage]);
-      setInputMessage('');
+      // Placeholder assistant message that fills in as the reply streams
+      const replyId = (Date.now() + 1).toString();
+      const reply: Message = {
+         id: replyId,
+         content: '',
+         isUser: false,
+         timestamp: new Date(),
+         citations: []
+      };
+
+      // Replies land in the thread they were asked in, even if the user switches threads
+      const documentContext = toDocumentContext(activeDocument);
+      const comparedWith = compareDocument && toDocumentContext(compareDocument);
+      const conversationId = activeConversation?.id ?? chat.newConversation();
+      const updateMessage = (id: string, update: (message: Message) => Message) => {
+         chat.updateMessages(conversationId, thread => thread.map(message => message.id === id ? update(message) : message));
+      };
+
+      chat.updateMessages(conversationId, thread => [...thread, newMessage, reply]);
+      setStreamingMessageId(replyId);
+
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      try {
+         const stream = streamChatMessage(chatProvider, {
+            question: newMessage.content,
+            document: documentContext,
+            ...(comparedWith && { compareDocument: comparedWith }),
+            history: messages,
+            selection
+         }, { signal: controller.signal });
+
+         for await (const event of stream) {
+            if (event.type === 'token') {
+               updateMessage(replyId, m => ({ ...m, content: m.content + event.text }));
+            } else if (event.type === 'citation') {
+               updateMessage(replyId, m => ({ ...m, citations: [...(m.citations ?? []), event.citation] }));
+            }
+         }
+      } catch (error) {
+         if (controller.signal.aborted) {
+            // Keep whatever arrived before the user pressed stop
+            updateMessage(replyId, m => ({ ...m, interrupted: true }));
+         } else {
+            const reason = error instanceof Error ? error.message : String(error);
+            updateMessage(replyId, m => ({
+               ...m,
+               content: m.content
+                  ? `${m.content}\n\nThe response was cut short: ${reason}`
+                  : `Sorry, I couldn't get an answer: ${reason}`
+            }));
+         }
+      } finally {
+         abortControllerRef.current = null;
+         setStreamingMessageId(null);
+      }
+   };
+
+   // Export the open thread with its citations turned into footnotes
+   const handleExport = async (format: ExportFormat, includeImages: boolean) => {
+      if (!activeConversation) return;
+      setExportError(null);
+
+      const exportedDocument = ({ name, title, source }: LibraryDocument) => ({
+         title: title ?? name,
+         url: typeof source === 'string' ? new URL(source, window.location.href).href : undefined
+      });
+      // Other documents the thread cites, e.g. from comparing against them
+      const citedDocuments = library.documents.filter(doc => doc.id !== activeDocument.id && activeConversation.messages
+         .some(message => message.citations?.some(citation => citation.documentId === doc.id)));
+
+      const conversation: ExportedConversation = {
+         title: activeConversation.title,
+         document: exportedDocument(activeDocument),
+         documents: Object.fromEntries(citedDocuments.map(doc => [doc.id, exportedDocument(doc)])),
+         messages: activeConversation.messages,
+         exportedAt: new Date()
+      };
+      const fileName = fileNameBase(activeConversation.title);
+
+      try {
+         if (format === 'markdown') {
+            downloadFile(conversationToMarkdown(conversation), `${fileName}.md`, 'text/markdown');
+            return;
+         }
+
+         // The viewers render the cited regions, one footnote at a time; documents that
+         // aren't open are left without images
+         const images = new Map<number, string>();
+         if (includeImages) {
+            for (const { number, page, documentId, sourceText } of numberFootnotes(conversation.messages).footnotes) {
+               const image = await viewerFor(documentId)?.renderCitationPreview({ text: sourceText, page });
+               if (image) images.set(number, image);
+            }
+         }
+
+         if (format === 'html') {
+            downloadFile(conversationToHtml(conversation, images), `${fileName}.html`, 'text/html');
+         } else {
+            downloadFile(await conversationToPdf(conversation, images), `${fileName}.pdf`, 'application/pdf');
+         }
+      } catch (error) {
+         setExportError(`Export failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+   };
 
-      // Simulate AI response (in a real app, this would be an API call)
-      setTimeout(() => {
-         // Find a response that matches the user's message
-         const response = {
-            id: (Date.now() + 1).toString(),
-            content: 'This is a sample response with a citation [1].',
-            isUser: false,
-            timestamp: new Date(),
-            citations: [
-               { id: 1, text: 'Sample citation text', page: 1 }
-            ]
-         };
-         setMessages(prev => [...prev, response]);
-      }, 1000);
+   // Stop the reply currently streaming in
+   const handleStopStreaming = () => {
+      abortControllerRef.current?.abort();
    };
 
+   // Read out each reply once it has finished streaming, rather than token by token
+   const streamedReplyRef = useRef<string | null>(null);
+   useEffect(() => {
+      const finished = streamedReplyRef.current;
+      streamedReplyRef.current = streamingMessageId;
+      if (!finished || streamingMessageId) return;
+
+      const content = messagesRef.current?.querySelector(`[data-message-id="${finished}"] [data-message-content]`);
+      const text = content?.textContent?.trim();
+      if (text) announce(`Answer: ${text}`);
+   }, [streamingMessageId, announce]);
+
+   // Abort any in-flight reply when the app unmounts
+   useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+   // The document to open is only known once the saved library has been read
+   if (!library.loaded) {
+      return (
+         <div className="flex h-dvh items-center justify-center bg-gray-100 dark:bg-gray-900 text-gray-500" role="status">
+            <div className="animate-pulse">Loading your documents...</div>
+         </div>
+      );
+   }
+
    return (
-      <div>
-         <div className="flex h-[calc(100vh-32px)] bg-gray-100 dark:bg-gray-900">
-            {/* PDF Viewer */}
-            <div className="w-2/3 h-full border-r border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
-               <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center max-h-[61px]">
-                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Financials</h2>
-                  <Button
-                     variant="ghost"
-                     size="icon"
-                     onClick={toggleDarkMode}
-                     className="text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
-                     aria-label={darkMode ? 'Switch to light mode' : 'Switch to dark mode'}
-                  >
-                     {darkMode ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
-                  </Button>
-               </div>
-               <div className="overflow-hidden">
-                  <PDFViewer
-                     ref={pdfViewerRef}
-                     file={samplePdf}
-                  />
-               </div>
+      <div className="flex flex-col h-dvh">
+         <div className="flex flex-1 min-h-0 bg-gray-100 dark:bg-gray-900">
+            {/* Document Library */}
+            <div
+               id={PANE_IDS.library}
+               className={cn('h-full', isNarrow ? 'flex-1 min-w-0' : 'w-56 shrink-0', !showLibrary && 'hidden')}
+            >
+               <DocumentSidebar
+                  className="h-full"
+                  documents={library.documents}
+                  activeId={activeDocument.id}
+                  onSelect={handleSelectDocument}
+                  onUpload={library.addFiles}
+                  onRemove={handleRemoveDocument}
+                  error={library.error}
+                  onDismissError={library.clearError}
+               />
             </div>
 
-            {/* Chat Interface */}
-            <div className="flex flex-col w-1/3 h-full bg-white dark:bg-gray-800">
-               <div className="p-4 border-b border-gray-200 dark:border-gray-700">
-                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Chat</h2>
-               </div>
-
-               {/* Messages */}
-               <div className="flex-1 overflow-y-auto p-4 space-y-4">
-                  {messages.map((message) => (
+            {/* Document and chat, split by a draggable handle */}
+            <div ref={splitRef} className={cn('flex flex-1 min-w-0 h-full', !showDocument && !showChat && 'hidden')}>
+               {/* PDF Viewer */}
+               <div
+                  id={PANE_IDS.document}
+                  className={cn('flex flex-col flex-1 min-w-0 h-full bg-white dark:bg-gray-800', !showDocument && 'hidden')}
+                  style={isSplit ? { flex: `${split.ratio} 1 0%` } : undefined}
+               >
+                  <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center max-h-[61px]">
+                     <h2 className="text-lg font-semibold text-gray-900 dark:text-white truncate" title={activeDocument.title ?? activeDocument.name}>
+                        {activeDocument.title ?? activeDocument.name}
+                     </h2>
+                     <div className="flex items-center gap-1">
+                        {!isNarrow && (
+                           <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => split.setCollapsed('document')}
+                              className="shrink-0 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+                              aria-label="Hide document"
+                              title="Hide document"
+                           >
+                              <PanelLeftClose className="h-5 w-5" />
+                           </Button>
+                        )}
+                        <CompareMenu
+                           documents={library.documents.filter(doc => doc.id !== activeDocument.id)}
+                           compareId={compareDocumentId}
+                           onCompare={setCompareId}
+                           scrollLink={linkedScroll.mode}
+                           onScrollLinkChange={linkedScroll.setMode}
+                        />
+                        <Button
+                           variant="ghost"
+                           size="icon"
+                           onClick={toggleDarkMode}
+                           className="text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+                           aria-label={darkMode ? 'Switch to light mode' : 'Switch to dark mode'}
+                        >
+                           {darkMode ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
+                        </Button>
+                     </div>
+                  </div>
+                  {citationNotice && (
                      <div
-                        key={message.id}
-                        className={`flex ${message.isUser ? 'justify-end' : 'justify-start'}`}
+                        className="flex items-start justify-between gap-2 px-4 py-2 text-sm bg-amber-50 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200 border-b border-amber-200 dark:border-amber-800"
                      >
-                        {!message.isUser && (
-                           <Avatar className="h-8 w-8 mr-2 mt-1">
-                              <AvatarFallback>AI</AvatarFallback>
-                           </Avatar>
+                        <span>{citationNotice}</span>
+                        <button
+                           onClick={() => setCitationNotice(null)}
+                           className="shrink-0 rounded p-0.5 hover:bg-amber-100 dark:hover:bg-amber-800/50"
+                           aria-label="Dismiss"
+                        >
+                           <X className="h-4 w-4" />
+                        </button>
+                     </div>
+                  )}
+                  <div className={cn('flex flex-1 min-h-0 overflow-hidden', isNarrow && 'flex-col')}>
+                     <div className="flex flex-col flex-1 min-w-0 min-h-0">
+                        {compareDocument && (
+                           <div className="px-3 py-1 text-xs font-medium truncate text-gray-600 dark:text-gray-300 bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
+                              {activeDocument.title ?? activeDocument.name}
+                           </div>
                         )}
+                        <PDFViewer
+                           ref={pdfViewerRef}
+                           className="flex-1"
+                           file={activeDocument.source}
+                           documentId={activeDocument.id}
+                           documentTitle={activeDocument.title ?? activeDocument.name}
+                           citedPages={citedPages}
+                           onDocumentLoad={handleDocumentLoad}
+                           onLoadStateChange={handleLoadStateChange}
+                           onPageChange={linkedScroll.primary.onPageChange}
+                           onSectionChange={linkedScroll.primary.onSectionChange}
+                           selectionActions={selectionActions}
+                           onSelectionAction={handleSelectionAction}
+                        />
+                     </div>
+                     {/* Document being compared against */}
+                     {compareDocument && (
                         <div
-                           className={`max-w-3/4 rounded-lg px-4 py-2 ${message.isUser
-                                 ? 'bg-blue-500 text-white rounded-br-none'
-                                 : 'bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-white rounded-bl-none'
-                              }`}
+                           className={cn(
+                              'flex flex-col flex-1 min-w-0 min-h-0 border-gray-200 dark:border-gray-700',
+                              isNarrow ? 'border-t' : 'border-l'
+                           )}
                         >
-                           <div className="whitespace-pre-wrap">
-                              {formatMessageContent(message.content, message.citations)}
-                           </div>
-                           <div className="text-xs mt-1 opacity-70">
-                              {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                           <div className="flex items-center justify-between gap-2 px-3 py-1 text-xs font-medium text-gray-600 dark:text-gray-300 bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
+                              <span className="truncate">{compareDocument.title ?? compareDocument.name}</span>
+                              <button
+                                 onClick={() => setCompareId(null)}
+                                 className="shrink-0 rounded p-0.5 hover:bg-gray-200 dark:hover:bg-gray-700"
+                                 aria-label="Close comparison"
+                                 title="Close comparison"
+                              >
+                                 <X className="h-3.5 w-3.5" />
+                              </button>
                            </div>
+                           <PDFViewer
+                              ref={compareViewerRef}
+                              className="flex-1"
+                              file={compareDocument.source}
+                              documentId={compareDocument.id}
+                              documentTitle={compareDocument.title ?? compareDocument.name}
+                              citedPages={compareCitedPages}
+                              onDocumentLoad={handleCompareDocumentLoad}
+                              onLoadStateChange={state => handleDocumentOpened(compareDocumentId, state)}
+                              onPageChange={linkedScroll.secondary.onPageChange}
+                              onSectionChange={linkedScroll.secondary.onSectionChange}
+                              selectionActions={selectionActions}
+                              onSelectionAction={(actionId, selection) => (
+                                 handleSelectionAction(actionId, { ...selection, documentId: compareDocument.id })
+                              )}
+                           />
                         </div>
-                        {message.isUser && (
-                           <Avatar className="h-8 w-8 ml-2 mt-1">
-                              <AvatarFallback>U</AvatarFallback>
-                           </Avatar>
-                        )}
-                     </div>
-                  ))}
+                     )}
+                  </div>
                </div>
 
-               {/* Message Input */}
-               <div className="p-4 border-t border-gray-200 dark:border-gray-700">
-                  <form onSubmit={handleSendMessage} className="flex space-x-2">
-                     <Input
-                        type="text"
-                        placeholder="Ask about your chat data..."
-                        value={inputMessage}
-                        onChange={(e) => setInputMessage(e.target.value)}
-                        className="flex-1"
+               {!isNarrow && (
+                  <SplitHandle
+                     ratio={split.ratio}
+                     containerRef={splitRef}
+                     collapsed={split.collapsed}
+                     onRatioChange={split.setRatio}
+                     onReset={split.resetRatio}
+                     onExpand={() => split.setCollapsed(null)}
+                  />
+               )}
+
+               {/* Chat Interface */}
+               <div
+                  id={PANE_IDS.chat}
+                  className={cn('flex flex-col flex-1 min-w-0 h-full bg-white dark:bg-gray-800', !showChat && 'hidden')}
+                  style={isSplit ? { flex: `${1 - split.ratio} 1 0%` } : undefined}
+               >
+                  <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center gap-2 max-h-[61px]">
+                     <ConversationMenu
+                        conversations={chat.conversations}
+                        activeConversation={activeConversation}
+                        onSelect={chat.selectConversation}
+                        onNew={chat.newConversation}
+                        onRename={chat.renameConversation}
+                        onDelete={chat.deleteConversation}
                      />
-                     <Button type="submit" size="icon">
-                        <Send className="h-4 w-4" />
+                     <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={chat.newConversation}
+                        disabled={!!streamingMessageId}
+                        className="shrink-0 text-gray-700 dark:text-gray-300"
+                        aria-label="New conversation"
+                        title="New conversation"
+                     >
+                        <MessageSquarePlus className="h-5 w-5" />
                      </Button>
-                  </form>
+                     <ExportMenu disabled={messages.length === 0 || !!streamingMessageId} onExport={handleExport} />
+                     {!isNarrow && (
+                        <Button
+                           variant="ghost"
+                           size="icon"
+                           onClick={() => split.setCollapsed('chat')}
+                           className="shrink-0 text-gray-700 dark:text-gray-300"
+                           aria-label="Hide chat"
+                           title="Hide chat"
+                        >
+                           <PanelRightClose className="h-5 w-5" />
+                        </Button>
+                     )}
+                  </div>
+                  {exportError && (
+                     <div
+                        role="alert"
+                        className="flex items-start justify-between gap-2 px-4 py-2 text-sm bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-200 border-b border-red-200 dark:border-red-800"
+                     >
+                        <span>{exportError}</span>
+                        <button
+                           onClick={() => setExportError(null)}
+                           className="shrink-0 rounded p-0.5 hover:bg-red-100 dark:hover:bg-red-800/50"
+                           aria-label="Dismiss"
+                        >
+                           <X className="h-4 w-4" />
+                        </button>
+                     </div>
+                  )}
+
+                  {/* Messages; replies are announced once complete, not as they stream */}
+                  <div
+                     ref={messagesRef}
+                     role="log"
+                     aria-live="off"
+                     aria-label="Messages"
+                     aria-busy={!!streamingMessageId}
+                     className="flex-1 overflow-y-auto p-4 space-y-4"
+                  >
+                     {messages.map((message) => (
+                        <div
+                           key={message.id}
+                           data-message-id={message.id}
+                           className={`flex ${message.isUser ? 'justify-end' : 'justify-start'}`}
+                        >
+                           {!message.isUser && (
+                              <Avatar className="h-8 w-8 mr-2 mt-1">
+                                 <AvatarFallback>AI</AvatarFallback>
+                              </Avatar>
+                           )}
+                           <div
+                              className={`max-w-3/4 rounded-lg px-4 py-2 ${message.isUser
+                                    ? 'bg-blue-500 text-white rounded-br-none'
+                                    : 'bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-white rounded-bl-none'
+                                 }`}
+                           >
+                              {message.selection && (
+                                 <blockquote className="mb-1.5 border-l-2 border-white/60 pl-2 text-sm italic opacity-90">
+                                    <span className="line-clamp-3">{message.selection.text}</span>
+                                    <span className="not-italic text-xs opacity-80">
+                                       {message.selection.documentId && `${getDocumentTitle(message.selection.documentId) ?? 'Another document'}, `}
+                                       Page {message.selection.page}
+                                    </span>
+                                 </blockquote>
+                              )}
+                              <div data-message-content className={message.isUser ? 'whitespace-pre-wrap' : 'break-words'}>
+                                 {message.isUser ? message.content : (
+                                    <MessageContent
+                                       content={message.content}
+                                       citations={message.citations}
+                                       renderCitation={renderCitationMarker}
+                                    />
+                                 )}
+                                 {message.id === streamingMessageId && (
+                                    <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-current animate-pulse" />
+                                 )}
+                              </div>
+                              {!message.isUser && message.id !== streamingMessageId && !!message.citations?.length && (
+                                 <MessageSources
+                                    citations={message.citations}
+                                    onSelect={handleCitationClick}
+                                    getDocumentTitle={getDocumentTitle}
+                                 />
+                              )}
+                              <div className="text-xs mt-1 opacity-70">
+                                 {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                 {message.interrupted && ' · stopped'}
+                              </div>
+                           </div>
+                           {message.isUser && (
+                              <Avatar className="h-8 w-8 ml-2 mt-1">
+                                 <AvatarFallback>U</AvatarFallback>
+                              </Avatar>
+                           )}
+                        </div>
+                     ))}
+                  </div>
+
+                  {/* Message Input */}
+                  <div className="p-4 border-t border-gray-200 dark:border-gray-700">
+                     <form onSubmit={handleSendMessage} className="flex space-x-2">
+                        <Input
+                           ref={inputRef}
+                           type="text"
+                           aria-label="Question"
+                           aria-keyshortcuts="/"
+                           placeholder={
+                              documentStatus === 'password' ? 'Enter the document\'s password to ask about it'
+                                 : documentStatus === 'error' ? 'This document couldn\'t be opened'
+                                 : 'Ask about your chat data...'
+                           }
+                           disabled={documentUnavailable}
+                           value={inputMessage}
+                           onChange={(e) => setInputMessage(e.target.value)}
+                           className="flex-1"
+                        />
+                        {streamingMessageId ? (
+                           <Button
+                              type="button"
+                              size="icon"
+                              variant="destructive"
+                              onClick={handleStopStreaming}
+                              aria-label="Stop generating"
+                              title="Stop generating"
+                           >
+                              <Square className="h-4 w-4" />
+                           </Button>
+                        ) : (
+                           <Button type="submit" size="icon" disabled={documentUnavailable} aria-label="Send message">
+                              <Send className="h-4 w-4" />
+                           </Button>
+                        )}
+                     </form>
+                  </div>
                </div>
             </div>
 
          </div>
+         {isNarrow && <MobileTabs tab={mobileTab} onTabChange={setMobileTab} panelIds={PANE_IDS} className="shrink-0" />}
+         <div className="sr-only" role="status" aria-live="polite">
+            {announcement}
+         </div>
          {/* Credits */}
-         <div className='w-full p-2 grid place-content-center whitespace-nowrap bg-gray-100 dark:bg-gray-900 text-xs z-50'>
+         <div className='shrink-0 w-full p-2 grid place-content-center whitespace-nowrap bg-gray-100 dark:bg-gray-900 text-xs z-50'>
             <span>Developed by <a target='_blank' className='text-blue-600 dark:text-blue-400 font-bold' href="https://www.linkedin.com/in/sbgprojects">Shubham Gujarathi</a></span>
          </div>
       </div>
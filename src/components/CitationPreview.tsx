@@ -0,0 +1,72 @@
+// src/components/CitationPreview.tsx
+import { useState, type ReactNode } from 'react';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import { cn } from '@/lib/utils';
+import type { Citation } from '@/lib/chat';
+
+interface CitationPreviewProps {
+  citation: Citation;
+  renderPreview: (citation: Citation) => Promise<string | null>;
+  // Named when the answer cites more than one document
+  documentTitle?: string;
+  // The [n] marker the preview belongs to
+  children: ReactNode;
+}
+
+// How well the quote matched the document, for the preview's header
+const describeVerification = ({ verification }: Citation) => {
+  switch (verification?.status) {
+    case 'verified':
+      return { label: 'Verified', className: 'text-green-700 dark:text-green-400' };
+    case 'relocated':
+      return { label: `Moved from page ${verification.originalPage}`, className: 'text-blue-700 dark:text-blue-400' };
+    case 'fuzzy':
+      return {
+        label: `Approximate match (${Math.round(verification.confidence * 100)}% of words)`,
+        className: 'text-amber-700 dark:text-amber-400'
+      };
+    case 'not-found':
+      return { label: 'Not found in the document', className: 'text-red-700 dark:text-red-400' };
+    default:
+      return { label: 'Checking…', className: 'text-muted-foreground' };
+  }
+};
+
+const CitationPreview = ({ citation, renderPreview, documentTitle, children }: CitationPreviewProps) => {
+  // undefined until the first hover, null when there is nothing to show
+  const [preview, setPreview] = useState<string | null | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(false);
+  const status = describeVerification(citation);
+
+  const handleOpenChange = async (open: boolean) => {
+    if (!open || preview !== undefined || isLoading) return;
+    setIsLoading(true);
+    try {
+      setPreview(await renderPreview(citation));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <HoverCard openDelay={250} closeDelay={100} onOpenChange={handleOpenChange}>
+      <HoverCardTrigger asChild>{children}</HoverCardTrigger>
+      <HoverCardContent className="w-80 p-3 space-y-2 text-sm" side="top">
+        <div className="flex items-center justify-between gap-2 text-xs">
+          <span className="font-semibold truncate" title={documentTitle}>
+            [{citation.id}] {documentTitle && `${documentTitle}, `}Page {citation.page}
+          </span>
+          <span className={cn('shrink-0', status.className)}>{status.label}</span>
+        </div>
+        <blockquote className="border-l-2 pl-2 italic line-clamp-4">{citation.text}</blockquote>
+        {(isLoading || preview) && (
+          <div className={cn('rounded border bg-white overflow-hidden', isLoading && 'h-16 animate-pulse bg-gray-100')}>
+            {preview && <img src={preview} alt={`Page ${citation.page} around the quoted text`} className="w-full max-h-48 object-contain" />}
+          </div>
+        )}
+      </HoverCardContent>
+    </HoverCard>
+  );
+};
+
+export default CitationPreview;
@@ -0,0 +1,81 @@
+// src/components/CompareMenu.tsx
+import { Columns2 } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { LibraryDocument } from '@/hooks/useDocumentLibrary';
+import type { ScrollLink } from '@/hooks/useLinkedScroll';
+
+interface CompareMenuProps {
+  // Documents that can be opened alongside the current one
+  documents: LibraryDocument[];
+  compareId?: string;
+  onCompare: (id: string | null) => void;
+  scrollLink: ScrollLink;
+  onScrollLinkChange: (link: ScrollLink) => void;
+}
+
+const scrollLinks: Array<{ link: ScrollLink; label: string }> = [
+  { link: 'off', label: 'Independently' },
+  { link: 'page', label: 'Page by page' },
+  { link: 'section', label: 'By outline section' }
+];
+
+const CompareMenu = ({ documents, compareId, onCompare, scrollLink, onScrollLinkChange }: CompareMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button
+        variant="ghost"
+        size="icon"
+        className={cn(
+          'shrink-0 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700',
+          compareId && 'bg-gray-200 dark:bg-gray-700'
+        )}
+        aria-label="Compare documents"
+        title="Compare documents"
+      >
+        <Columns2 className="h-5 w-5" />
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end" className="w-64">
+      <DropdownMenuLabel>Compare with</DropdownMenuLabel>
+      {documents.length === 0 ? (
+        <p className="px-2 py-1.5 text-xs text-muted-foreground">Upload another PDF to compare it with this one.</p>
+      ) : (
+        <DropdownMenuRadioGroup value={compareId ?? ''} onValueChange={onCompare}>
+          {documents.map(document => (
+            <DropdownMenuRadioItem key={document.id} value={document.id}>
+              <span className="truncate">{document.title ?? document.name}</span>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      )}
+      {compareId && (
+        <>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>Scroll</DropdownMenuLabel>
+          <DropdownMenuRadioGroup value={scrollLink} onValueChange={value => onScrollLinkChange(value as ScrollLink)}>
+            {scrollLinks.map(({ link, label }) => (
+              <DropdownMenuRadioItem key={link} value={link}>
+                {label}
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => onCompare(null)}>Close comparison</DropdownMenuItem>
+        </>
+      )}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+export default CompareMenu;
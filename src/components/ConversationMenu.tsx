@@ -0,0 +1,124 @@
+// src/components/ConversationMenu.tsx
+import { useEffect, useRef, useState } from 'react';
+import { ChevronDown, MessageSquarePlus, Pencil, Trash2 } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import type { Conversation } from '@/lib/chat';
+
+interface ConversationMenuProps {
+  conversations: Conversation[];
+  activeConversation: Conversation | null;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ConversationMenu = ({
+  conversations,
+  activeConversation,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete
+}: ConversationMenuProps) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftTitle, setDraftTitle] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Renaming starts once the menu has closed, so focus isn't pulled back to the trigger
+  const renameRequested = useRef(false);
+
+  useEffect(() => {
+    if (isRenaming) inputRef.current?.select();
+  }, [isRenaming]);
+
+  const startRename = () => {
+    if (!activeConversation) return;
+    setDraftTitle(activeConversation.title);
+    setIsRenaming(true);
+  };
+
+  const commitRename = () => {
+    if (activeConversation) onRename(activeConversation.id, draftTitle);
+    setIsRenaming(false);
+  };
+
+  if (isRenaming) {
+    return (
+      <Input
+        ref={inputRef}
+        value={draftTitle}
+        onChange={(e) => setDraftTitle(e.target.value)}
+        onBlur={commitRename}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commitRename();
+          if (e.key === 'Escape') setIsRenaming(false);
+        }}
+        className="h-8"
+        aria-label="Conversation name"
+      />
+    );
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger className="flex items-center gap-1 min-w-0 rounded-md px-1 -mx-1 text-lg font-semibold text-gray-900 dark:text-white hover:bg-gray-100 dark:hover:bg-gray-700 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring">
+        <span className="truncate">{activeConversation?.title ?? 'Chat'}</span>
+        <ChevronDown className="h-4 w-4 shrink-0" />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="start"
+        className="w-64"
+        onCloseAutoFocus={(e) => {
+          if (!renameRequested.current) return;
+          renameRequested.current = false;
+          e.preventDefault();
+          startRename();
+        }}
+      >
+        <DropdownMenuItem onSelect={onNew}>
+          <MessageSquarePlus /> New conversation
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => { renameRequested.current = true; }} disabled={!activeConversation}>
+          <Pencil /> Rename
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          onSelect={() => activeConversation && onDelete(activeConversation.id)}
+          disabled={!activeConversation}
+          className="text-red-600 focus:text-red-600"
+        >
+          <Trash2 /> Delete
+        </DropdownMenuItem>
+
+        {conversations.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs font-normal opacity-70">Conversations</DropdownMenuLabel>
+            {conversations.map(conversation => (
+              <DropdownMenuItem
+                key={conversation.id}
+                onSelect={() => onSelect(conversation.id)}
+                className={cn('flex-col items-start gap-0', conversation.id === activeConversation?.id && 'bg-accent')}
+              >
+                <span className="w-full truncate">{conversation.title}</span>
+                <span className="text-xs opacity-60">
+                  {conversation.messages.length} messages · {conversation.updatedAt.toLocaleDateString()}
+                </span>
+              </DropdownMenuItem>
+            ))}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ConversationMenu;
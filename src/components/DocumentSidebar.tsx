@@ -0,0 +1,125 @@
+// src/components/DocumentSidebar.tsx
+import { useRef, useState } from 'react';
+import { FileText, Trash2, Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { LibraryDocument } from '@/hooks/useDocumentLibrary';
+
+interface DocumentSidebarProps {
+  documents: LibraryDocument[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onUpload: (files: FileList) => void;
+  onRemove: (id: string) => void;
+  error?: string | null;
+  onDismissError?: () => void;
+  className?: string;
+}
+
+const DocumentSidebar = ({
+  documents,
+  activeId,
+  onSelect,
+  onUpload,
+  onRemove,
+  error,
+  onDismissError,
+  className = ''
+}: DocumentSidebarProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (e.dataTransfer.files.length > 0) onUpload(e.dataTransfer.files);
+  };
+
+  return (
+    <aside
+      className={cn(
+        'flex flex-col border-r border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900',
+        isDragging && 'ring-2 ring-inset ring-blue-500',
+        className
+      )}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={(e) => {
+        // Ignore leave events fired when moving between child elements
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+      }}
+      onDrop={handleDrop}
+      aria-label="Documents"
+    >
+      <div className="p-2 border-b border-gray-200 dark:border-gray-700">
+        <Button variant="outline" size="sm" className="w-full" onClick={() => inputRef.current?.click()}>
+          <Upload /> Add PDF
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="application/pdf,.pdf"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files?.length) onUpload(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {error && (
+        <div role="alert" className="flex items-start gap-1 m-2 p-2 rounded text-xs bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300">
+          <span className="flex-1">{error}</span>
+          {onDismissError && (
+            <button onClick={onDismissError} aria-label="Dismiss">
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+      )}
+
+      <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+        {documents.map(doc => (
+          <li key={doc.id} className="group relative">
+            <button
+              onClick={() => onSelect(doc.id)}
+              className={cn(
+                'w-full flex items-start gap-2 rounded-md px-2 py-1.5 text-left text-sm transition-colors',
+                doc.id === activeId
+                  ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-900 dark:text-blue-100'
+                  : 'text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-800'
+              )}
+              aria-current={doc.id === activeId ? 'true' : undefined}
+              title={doc.title ?? doc.name}
+            >
+              <FileText className="h-4 w-4 mt-0.5 shrink-0" />
+              <span className="min-w-0 pr-5">
+                <span className="block truncate">{doc.title ?? doc.name}</span>
+                {doc.title && <span className="block truncate text-xs opacity-60">{doc.name}</span>}
+              </span>
+            </button>
+            {!doc.builtIn && (
+              <button
+                onClick={() => onRemove(doc.id)}
+                className="absolute right-1 top-1.5 p-0.5 rounded opacity-0 group-hover:opacity-100 focus:opacity-100 text-gray-500 hover:text-red-600"
+                aria-label={`Remove ${doc.name}`}
+                title="Remove"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <p className="p-2 text-xs text-center text-gray-500 dark:text-gray-400">
+        Drop PDFs here to add them
+      </p>
+    </aside>
+  );
+};
+
+export default DocumentSidebar;
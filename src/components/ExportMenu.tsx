@@ -0,0 +1,76 @@
+// src/components/ExportMenu.tsx
+import { useState } from 'react';
+import { Download, LoaderCircle } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+
+export type ExportFormat = 'markdown' | 'html' | 'pdf';
+
+interface ExportMenuProps {
+  disabled?: boolean;
+  onExport: (format: ExportFormat, includeImages: boolean) => Promise<void>;
+}
+
+const formats: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'markdown', label: 'Markdown (.md)' },
+  { format: 'html', label: 'Web page (.html)' },
+  { format: 'pdf', label: 'PDF (.pdf)' }
+];
+
+const ExportMenu = ({ disabled, onExport }: ExportMenuProps) => {
+  const [includeImages, setIncludeImages] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      await onExport(format, includeImages);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          disabled={disabled || isExporting}
+          className="shrink-0 text-gray-700 dark:text-gray-300"
+          aria-label="Export conversation"
+          title="Export conversation"
+        >
+          {isExporting ? <LoaderCircle className="h-5 w-5 animate-spin" /> : <Download className="h-5 w-5" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Export conversation</DropdownMenuLabel>
+        {formats.map(({ format, label }) => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            {label}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={includeImages}
+          onCheckedChange={(checked) => setIncludeImages(checked === true)}
+          // Keep the menu open while toggling
+          onSelect={(e) => e.preventDefault()}
+        >
+          Include images of cited regions
+        </DropdownMenuCheckboxItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,69 @@
+// src/components/MessageContent.tsx
+import { useMemo, type ReactNode } from 'react';
+import ReactMarkdown, { type Components, type Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { remarkCitations } from '@/lib/remarkCitations';
+import type { Citation } from '@/lib/chat';
+
+interface MessageContentProps {
+  content: string;
+  citations?: Citation[];
+  renderCitation: (citation: Citation, label: string) => ReactNode;
+}
+
+// Markdown elements styled to fit inside a chat bubble
+const components: Components = {
+  p: ({ node: _node, ...props }) => <p className="my-2 first:mt-0 last:mb-0" {...props} />,
+  ul: ({ node: _node, ...props }) => <ul className="my-2 pl-5 list-disc space-y-1" {...props} />,
+  ol: ({ node: _node, ...props }) => <ol className="my-2 pl-5 list-decimal space-y-1" {...props} />,
+  h1: ({ node: _node, ...props }) => <h3 className="mt-3 mb-1 font-semibold text-base" {...props} />,
+  h2: ({ node: _node, ...props }) => <h3 className="mt-3 mb-1 font-semibold text-base" {...props} />,
+  h3: ({ node: _node, ...props }) => <h4 className="mt-3 mb-1 font-semibold" {...props} />,
+  blockquote: ({ node: _node, ...props }) => (
+    <blockquote className="my-2 border-l-2 border-gray-300 dark:border-gray-500 pl-3 italic" {...props} />
+  ),
+  a: ({ node: _node, ...props }) => (
+    <a className="text-blue-600 dark:text-blue-400 underline" target="_blank" rel="noopener noreferrer" {...props} />
+  ),
+  code: ({ node: _node, className, ...props }) => (
+    <code className={className ?? 'rounded bg-gray-200 dark:bg-gray-800 px-1 py-0.5 text-[0.9em]'} {...props} />
+  ),
+  pre: ({ node: _node, ...props }) => (
+    <pre className="my-2 overflow-x-auto rounded bg-gray-200 dark:bg-gray-800 p-2 text-xs" {...props} />
+  ),
+  table: ({ node: _node, ...props }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="min-w-full border-collapse text-xs" {...props} />
+    </div>
+  ),
+  th: ({ node: _node, ...props }) => (
+    <th className="border border-gray-300 dark:border-gray-500 px-2 py-1 text-left font-semibold bg-gray-200/60 dark:bg-gray-800/60" {...props} />
+  ),
+  td: ({ node: _node, ...props }) => <td className="border border-gray-300 dark:border-gray-500 px-2 py-1 tabular-nums" {...props} />
+};
+
+// Renders an assistant reply as Markdown. Raw HTML in the reply is shown as text,
+// never injected, and [n] markers anywhere in it become citations.
+const MessageContent = ({ content, citations = [], renderCitation }: MessageContentProps) => {
+  const remarkPlugins = useMemo<Options['remarkPlugins']>(
+    () => [remarkGfm, [remarkCitations, { ids: new Set(citations.map(citation => citation.id)) }]],
+    [citations]
+  );
+
+  const allComponents = useMemo<Components>(() => ({
+    ...components,
+    cite: ({ node, children }) => {
+      const id = Number(node?.properties?.dataCitation);
+      const citation = citations.find(c => c.id === id);
+      return citation ? renderCitation(citation, `[${id}]`) : <>{children}</>;
+    }
+  }), [citations, renderCitation]);
+
+  return (
+    <ReactMarkdown remarkPlugins={remarkPlugins} components={allComponents}>
+      {content}
+    </ReactMarkdown>
+  );
+};
+
+export default MessageContent;
@@ -0,0 +1,86 @@
+// src/components/MessageSources.tsx
+import { useMemo, useState } from 'react';
+import { ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { Citation } from '@/lib/chat';
+
+interface MessageSourcesProps {
+  citations: Citation[];
+  onSelect: (citation: Citation) => void;
+  // Title of a cited document, for answers citing more than one
+  getDocumentTitle?: (documentId: string) => string | undefined;
+  className?: string;
+}
+
+interface SourceGroup {
+  documentId?: string;
+  page: number;
+  citations: Citation[];
+}
+
+const MessageSources = ({ citations, onSelect, getDocumentTitle, className = '' }: MessageSourcesProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Cited passages by document, then in page order, so sources from the same page sit together
+  const groups = useMemo(() => {
+    const documentOrder = new Map<string, number>();
+    citations.forEach(({ documentId = '' }) => {
+      if (!documentOrder.has(documentId)) documentOrder.set(documentId, documentOrder.size);
+    });
+    const rank = ({ documentId = '' }: Citation) => documentOrder.get(documentId) ?? 0;
+
+    const byPage = new Map<string, SourceGroup>();
+    [...citations]
+      .sort((a, b) => rank(a) - rank(b) || a.page - b.page || a.id - b.id)
+      .forEach(citation => {
+        const key = `${citation.documentId ?? ''}:${citation.page}`;
+        const group = byPage.get(key) ?? { documentId: citation.documentId, page: citation.page, citations: [] };
+        group.citations.push(citation);
+        byPage.set(key, group);
+      });
+    return Array.from(byPage.values());
+  }, [citations]);
+
+  return (
+    <div className={cn('mt-2 border-t border-gray-200 dark:border-gray-600 pt-1 text-xs', className)}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center gap-1 py-0.5 font-medium opacity-80 hover:opacity-100"
+        aria-expanded={isOpen}
+      >
+        <ChevronRight className={cn('h-3.5 w-3.5 transition-transform', isOpen && 'rotate-90')} />
+        Sources ({citations.length})
+      </button>
+      {isOpen && (
+        <ul className="mt-1 space-y-2">
+          {groups.map(({ documentId, page, citations: pageCitations }) => {
+            const title = documentId ? getDocumentTitle?.(documentId) : undefined;
+            return (
+              <li key={`${documentId ?? ''}:${page}`}>
+                <div className="font-semibold opacity-70 truncate">{title && `${title} · `}Page {page}</div>
+                <ul className="space-y-0.5">
+                  {pageCitations.map(citation => (
+                    <li key={citation.id}>
+                      <button
+                        onClick={() => onSelect(citation)}
+                        className="w-full text-left rounded px-1 py-0.5 hover:bg-gray-200 dark:hover:bg-gray-600"
+                        title={`Show on page ${page}`}
+                      >
+                        <span className="line-clamp-2">
+                          <span className="text-blue-600 dark:text-blue-400 mr-1">[{citation.id}]</span>
+                          {citation.text}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MessageSources;
@@ -0,0 +1,62 @@
+// src/components/MobileTabs.tsx
+import { FileText, Library, MessageSquare } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+// The pane shown on narrow screens, where only one fits at a time
+export type MobileTab = 'library' | 'document' | 'chat';
+
+interface MobileTabsProps {
+  tab: MobileTab;
+  onTabChange: (tab: MobileTab) => void;
+  // Id of the element each tab shows
+  panelIds: Record<MobileTab, string>;
+  className?: string;
+}
+
+const tabs: Array<{ tab: MobileTab; label: string; Icon: typeof FileText }> = [
+  { tab: 'library', label: 'Library', Icon: Library },
+  { tab: 'document', label: 'Document', Icon: FileText },
+  { tab: 'chat', label: 'Chat', Icon: MessageSquare }
+];
+
+const MobileTabs = ({ tab, onTabChange, panelIds, className }: MobileTabsProps) => {
+  // Arrow keys move between tabs, as in any tab list
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+    e.preventDefault();
+    const index = tabs.findIndex(item => item.tab === tab);
+    const next = tabs[(index + (e.key === 'ArrowRight' ? 1 : -1) + tabs.length) % tabs.length];
+    onTabChange(next.tab);
+    document.getElementById(`${panelIds[next.tab]}-tab`)?.focus();
+  };
+
+  return (
+    <div
+      role="tablist"
+      aria-label="View"
+      onKeyDown={handleKeyDown}
+      className={cn('flex border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800', className)}
+    >
+      {tabs.map(({ tab: item, label, Icon }) => (
+        <button
+          key={item}
+          id={`${panelIds[item]}-tab`}
+          role="tab"
+          aria-selected={tab === item}
+          aria-controls={panelIds[item]}
+          tabIndex={tab === item ? 0 : -1}
+          onClick={() => onTabChange(item)}
+          className={cn(
+            'flex-1 flex flex-col items-center gap-0.5 py-2 text-xs text-gray-600 dark:text-gray-300 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-ring',
+            tab === item && 'text-blue-600 dark:text-blue-400 font-medium'
+          )}
+        >
+          <Icon className="h-5 w-5" />
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default MobileTabs;
@@ -0,0 +1,125 @@
+// src/components/PDFAnnotations.tsx
+import { FileDown, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { downloadFile, fileNameBase } from '@/lib/download';
+import {
+  HIGHLIGHT_COLORS,
+  annotationsToJson,
+  annotationsToMarkdown,
+  sortAnnotations,
+  type Annotation,
+  type HighlightColor
+} from '@/lib/annotations';
+
+interface PDFAnnotationsProps {
+  annotations: Annotation[];
+  documentId: string;
+  documentTitle: string;
+  onSelect: (annotation: Annotation) => void;
+  onUpdate: (id: string, changes: Partial<Pick<Annotation, 'color' | 'note'>>) => void;
+  onRemove: (id: string) => void;
+  className?: string;
+}
+
+const exportButton = 'flex items-center gap-1 px-2 py-1 rounded-md text-xs hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:pointer-events-none';
+
+const PDFAnnotations = ({
+  annotations,
+  documentId,
+  documentTitle,
+  onSelect,
+  onUpdate,
+  onRemove,
+  className = ''
+}: PDFAnnotationsProps) => {
+  const fileBase = fileNameBase(documentTitle);
+
+  return (
+    <div className={cn('flex flex-col overflow-hidden bg-gray-50 dark:bg-gray-900 border-r dark:border-gray-700', className)}>
+      <div className="flex items-center justify-between gap-1 px-2 py-1.5 border-b dark:border-gray-700 text-gray-700 dark:text-gray-300">
+        <span className="px-1 text-xs font-semibold">Highlights ({annotations.length})</span>
+        <div className="flex">
+          <button
+            onClick={() => downloadFile(annotationsToMarkdown(annotations, documentTitle), `${fileBase}-highlights.md`, 'text/markdown')}
+            disabled={annotations.length === 0}
+            className={exportButton}
+            title="Export as Markdown"
+          >
+            <FileDown className="h-3.5 w-3.5" />
+            MD
+          </button>
+          <button
+            onClick={() => downloadFile(annotationsToJson(annotations, documentId), `${fileBase}-highlights.json`, 'application/json')}
+            disabled={annotations.length === 0}
+            className={exportButton}
+            title="Export as JSON"
+          >
+            <FileDown className="h-3.5 w-3.5" />
+            JSON
+          </button>
+        </div>
+      </div>
+
+      {annotations.length === 0 ? (
+        <p className="p-3 text-xs text-gray-500 dark:text-gray-400">
+          Select text on a page and pick a colour to save a highlight.
+        </p>
+      ) : (
+        <ul className="flex-1 overflow-y-auto p-2 space-y-2">
+          {sortAnnotations(annotations).map(annotation => (
+            <li
+              key={annotation.id}
+              className="rounded-md bg-white dark:bg-gray-800 shadow-sm border-l-4 p-2 space-y-1.5"
+              style={{ borderLeftColor: HIGHLIGHT_COLORS[annotation.color].fill }}
+            >
+              <button
+                onClick={() => onSelect(annotation)}
+                className="block w-full text-left text-xs text-gray-800 dark:text-gray-200 hover:underline"
+                title={`Go to page ${annotation.page}`}
+              >
+                <span className="line-clamp-3">{annotation.text}</span>
+              </button>
+              <textarea
+                defaultValue={annotation.note ?? ''}
+                onBlur={(e) => {
+                  const note = e.target.value.trim();
+                  if (note !== (annotation.note ?? '')) onUpdate(annotation.id, { note: note || undefined });
+                }}
+                placeholder="Add a note…"
+                aria-label="Note"
+                rows={1}
+                className="w-full resize-y rounded border border-input bg-transparent px-1.5 py-1 text-xs focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+              />
+              <div className="flex items-center gap-1">
+                {(Object.keys(HIGHLIGHT_COLORS) as HighlightColor[]).map(color => (
+                  <button
+                    key={color}
+                    onClick={() => onUpdate(annotation.id, { color })}
+                    className={cn(
+                      'h-3.5 w-3.5 rounded-full border border-black/10',
+                      annotation.color === color && 'ring-2 ring-offset-1 ring-gray-400 dark:ring-offset-gray-800'
+                    )}
+                    style={{ background: HIGHLIGHT_COLORS[color].fill }}
+                    aria-label={`Change colour to ${HIGHLIGHT_COLORS[color].label.toLowerCase()}`}
+                    aria-pressed={annotation.color === color}
+                  />
+                ))}
+                <span className="ml-auto text-[11px] text-gray-500 dark:text-gray-400">p. {annotation.page}</span>
+                <button
+                  onClick={() => onRemove(annotation.id)}
+                  className="p-0.5 rounded text-gray-500 hover:text-red-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  aria-label="Delete highlight"
+                  title="Delete highlight"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PDFAnnotations;
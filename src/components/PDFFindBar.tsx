@@ -0,0 +1,106 @@
+// src/components/PDFFindBar.tsx
+import { forwardRef } from 'react';
+import { CaseSensitive, ChevronDown, ChevronUp, Regex, WholeWord, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { SearchOptions } from '@/lib/textSearch';
+
+interface PDFFindBarProps {
+  query: string;
+  options: SearchOptions;
+  matchCount: number;
+  // Index of the highlighted match, or -1 when there is none
+  currentMatch: number;
+  isSearching: boolean;
+  error?: string | null;
+  onQueryChange: (query: string) => void;
+  onOptionsChange: (options: SearchOptions) => void;
+  onNext: () => void;
+  onPrevious: () => void;
+  onClose: () => void;
+}
+
+const optionButtons: Array<{ key: keyof SearchOptions; label: string; Icon: typeof Regex }> = [
+  { key: 'caseSensitive', label: 'Match case', Icon: CaseSensitive },
+  { key: 'wholeWord', label: 'Match whole word', Icon: WholeWord },
+  { key: 'regex', label: 'Use regular expression', Icon: Regex }
+];
+
+const iconButton = 'p-1 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:pointer-events-none';
+
+const PDFFindBar = forwardRef<HTMLInputElement, PDFFindBarProps>(({
+  query,
+  options,
+  matchCount,
+  currentMatch,
+  isSearching,
+  error,
+  onQueryChange,
+  onOptionsChange,
+  onNext,
+  onPrevious,
+  onClose
+}, inputRef) => {
+  let status = '';
+  if (error) status = error;
+  else if (isSearching) status = 'Searching…';
+  else if (query.trim()) status = matchCount > 0 ? `${currentMatch + 1} of ${matchCount}` : 'No results';
+
+  return (
+    <div role="search" className="flex items-center gap-1 px-4 py-1.5 border-b dark:border-gray-700 bg-gray-50 dark:bg-gray-900">
+      <input
+        ref={inputRef}
+        type="text"
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            if (e.shiftKey) onPrevious();
+            else onNext();
+          } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+          }
+        }}
+        placeholder="Find in document"
+        aria-label="Find in document"
+        aria-invalid={!!error}
+        className={cn(
+          'h-7 flex-1 min-w-0 rounded-md border border-input bg-transparent px-2 text-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring',
+          error && 'border-red-500'
+        )}
+      />
+      {optionButtons.map(({ key, label, Icon }) => (
+        <button
+          key={key}
+          onClick={() => onOptionsChange({ ...options, [key]: !options[key] })}
+          className={cn(iconButton, options[key] && 'bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-200')}
+          aria-label={label}
+          aria-pressed={options[key]}
+          title={label}
+        >
+          <Icon className="h-4 w-4" />
+        </button>
+      ))}
+      <span
+        className={cn('w-24 text-center text-xs whitespace-nowrap', error ? 'text-red-500' : 'text-gray-600 dark:text-gray-300')}
+        aria-live="polite"
+      >
+        {status}
+      </span>
+      <button onClick={onPrevious} disabled={matchCount === 0} className={iconButton} aria-label="Previous match" title="Previous match (Shift+Enter)">
+        <ChevronUp className="h-4 w-4" />
+      </button>
+      <button onClick={onNext} disabled={matchCount === 0} className={iconButton} aria-label="Next match" title="Next match (Enter)">
+        <ChevronDown className="h-4 w-4" />
+      </button>
+      <button onClick={onClose} className={iconButton} aria-label="Close find bar" title="Close (Esc)">
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+});
+
+PDFFindBar.displayName = 'PDFFindBar';
+
+export default PDFFindBar;
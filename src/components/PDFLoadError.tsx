@@ -0,0 +1,38 @@
+// src/components/PDFLoadError.tsx
+import { AlertTriangle, FileWarning, FileX, Lock, RotateCw, ServerCrash, WifiOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { PdfLoadErrorKind, PdfLoadProblem } from '@/lib/pdfjs';
+
+interface PDFLoadErrorProps {
+  problem: PdfLoadProblem;
+  onRetry: () => void;
+}
+
+const details: Record<PdfLoadErrorKind, { title: string; Icon: typeof Lock; retryLabel: string }> = {
+  password: { title: 'Password required', Icon: Lock, retryLabel: 'Enter password' },
+  corrupt: { title: 'Damaged PDF', Icon: FileWarning, retryLabel: 'Try again' },
+  network: { title: "Couldn't download the PDF", Icon: WifiOff, retryLabel: 'Try again' },
+  'wrong-type': { title: 'Not a PDF', Icon: FileX, retryLabel: 'Try again' },
+  'missing-resource': { title: 'Viewer files missing', Icon: ServerCrash, retryLabel: 'Try again' },
+  unknown: { title: "Couldn't open the PDF", Icon: AlertTriangle, retryLabel: 'Try again' }
+};
+
+const PDFLoadError = ({ problem, onRetry }: PDFLoadErrorProps) => {
+  const { title, Icon, retryLabel } = details[problem.kind];
+
+  return (
+    <div role="alert" className="flex flex-col items-center justify-center gap-3 h-64 p-6 text-center">
+      <Icon className="h-8 w-8 text-red-500" />
+      <div className="space-y-1">
+        <p className="font-semibold text-gray-900 dark:text-gray-100">{title}</p>
+        <p className="text-sm text-gray-600 dark:text-gray-400 break-words max-w-md">{problem.message}</p>
+      </div>
+      <Button variant="outline" size="sm" onClick={onRetry}>
+        <RotateCw className="h-4 w-4 mr-1.5" />
+        {retryLabel}
+      </Button>
+    </div>
+  );
+};
+
+export default PDFLoadError;
@@ -0,0 +1,107 @@
+// src/components/PDFOutline.tsx
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { findActiveOutlineNode, type OutlineNode } from '@/lib/pdfOutline';
+
+interface PDFOutlineProps {
+  outline: OutlineNode[];
+  currentPage: number;
+  onNavigate: (node: OutlineNode) => void;
+  className?: string;
+}
+
+// Ids of the node's ancestors, so the active section can be revealed
+const ancestorsOf = (nodes: OutlineNode[], id: string, path: string[] = []): string[] | null => {
+  for (const node of nodes) {
+    if (node.id === id) return path;
+    const found = ancestorsOf(node.children, id, [...path, node.id]);
+    if (found) return found;
+  }
+  return null;
+};
+
+const PDFOutline = ({ outline, currentPage, onNavigate, className = '' }: PDFOutlineProps) => {
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set());
+  const listRef = useRef<HTMLDivElement>(null);
+  const active = useMemo(() => findActiveOutlineNode(outline, currentPage), [outline, currentPage]);
+
+  // Follow the reader: expand down to the section containing the current page
+  useEffect(() => {
+    if (!active) return;
+    const ancestors = ancestorsOf(outline, active.id) ?? [];
+    if (ancestors.length > 0) {
+      setExpanded(prev => (ancestors.every(id => prev.has(id)) ? prev : new Set([...prev, ...ancestors])));
+    }
+    requestAnimationFrame(() => {
+      listRef.current?.querySelector('[aria-current="location"]')?.scrollIntoView({ block: 'nearest' });
+    });
+  }, [outline, active]);
+
+  const toggle = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const renderNodes = (nodes: OutlineNode[], depth: number) => (
+    <ul role={depth === 0 ? 'tree' : 'group'} aria-label={depth === 0 ? 'Document outline' : undefined}>
+      {nodes.map(node => {
+        const hasChildren = node.children.length > 0;
+        const isExpanded = expanded.has(node.id);
+        const isActive = node.id === active?.id;
+
+        return (
+          <li key={node.id} role="treeitem" aria-expanded={hasChildren ? isExpanded : undefined}>
+            <div className="flex items-start" style={{ paddingLeft: depth * 12 }}>
+              {hasChildren ? (
+                <button
+                  onClick={() => toggle(node.id)}
+                  className="p-0.5 mt-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
+                  aria-label={isExpanded ? `Collapse ${node.title}` : `Expand ${node.title}`}
+                >
+                  <ChevronRight className={cn('h-3.5 w-3.5 transition-transform', isExpanded && 'rotate-90')} />
+                </button>
+              ) : (
+                <span className="w-[18px] shrink-0" />
+              )}
+              <button
+                onClick={() => onNavigate(node)}
+                disabled={node.pageNumber === null}
+                className={cn(
+                  'flex-1 min-w-0 flex justify-between gap-2 rounded px-1 py-0.5 text-left text-xs',
+                  isActive
+                    ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-900 dark:text-blue-100 font-medium'
+                    : 'text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700',
+                  node.pageNumber === null && 'opacity-60 cursor-default'
+                )}
+                aria-current={isActive ? 'location' : undefined}
+                title={node.title}
+              >
+                <span className="line-clamp-2">{node.title}</span>
+                {node.pageNumber !== null && <span className="shrink-0 opacity-60">{node.pageNumber}</span>}
+              </button>
+            </div>
+            {hasChildren && isExpanded && renderNodes(node.children, depth + 1)}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  return (
+    <div
+      ref={listRef}
+      className={cn('overflow-y-auto p-2 bg-gray-50 dark:bg-gray-900 border-r dark:border-gray-700', className)}
+    >
+      {outline.length > 0 ? renderNodes(outline, 0) : (
+        <p className="p-2 text-xs text-gray-500 dark:text-gray-400">This document has no outline.</p>
+      )}
+    </div>
+  );
+};
+
+export default PDFOutline;
@@ -0,0 +1,59 @@
+// src/components/PDFPasswordPrompt.tsx
+import { useId, useState } from 'react';
+import { KeyRound } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface PDFPasswordPromptProps {
+  // Set after a wrong password was entered
+  incorrect: boolean;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+const PDFPasswordPrompt = ({ incorrect, onSubmit, onCancel }: PDFPasswordPromptProps) => {
+  const [password, setPassword] = useState('');
+  const titleId = useId();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password) onSubmit(password);
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="mx-auto mt-12 w-full max-w-xs space-y-3 rounded-lg border bg-white dark:bg-gray-800 dark:border-gray-700 p-4 shadow-sm"
+      aria-labelledby={titleId}
+    >
+      <div className="flex items-center gap-2">
+        <KeyRound className="h-5 w-5 text-gray-500" />
+        <h3 id={titleId} className="font-semibold text-gray-900 dark:text-gray-100">
+          Password-protected PDF
+        </h3>
+      </div>
+      <p className={incorrect ? 'text-sm text-red-600 dark:text-red-400' : 'text-sm text-gray-600 dark:text-gray-400'}>
+        {incorrect ? 'That password is incorrect. Please try again.' : 'Enter the password to open this document.'}
+      </p>
+      <Input
+        autoFocus
+        type="password"
+        autoComplete="off"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        aria-label="Password"
+        aria-invalid={incorrect}
+      />
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={!password}>
+          Open
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default PDFPasswordPrompt;
@@ -0,0 +1,58 @@
+// src/components/PDFSelectionMenu.tsx
+import { MessageSquare } from 'lucide-react';
+import { HIGHLIGHT_COLORS, type HighlightColor } from '@/lib/annotations';
+
+export interface SelectionMenuAction {
+  id: string;
+  label: string;
+}
+
+interface PDFSelectionMenuProps {
+  // Position inside the scroll container, just below the selection
+  left: number;
+  top: number;
+  onHighlight: (color: HighlightColor) => void;
+  actions?: SelectionMenuAction[];
+  onAction?: (id: string) => void;
+}
+
+const PDFSelectionMenu = ({ left, top, onHighlight, actions = [], onAction }: PDFSelectionMenuProps) => (
+  <div
+    role="toolbar"
+    aria-label="Selection"
+    className="absolute z-20 flex flex-col gap-1 rounded-md border bg-white dark:bg-gray-800 dark:border-gray-700 shadow-md px-2 py-1 -translate-x-1/2"
+    style={{ left, top }}
+    // Keep the text selection while clicking the menu
+    onMouseDown={(e) => e.preventDefault()}
+  >
+    <div className="flex items-center gap-1">
+      <span className="text-xs text-gray-600 dark:text-gray-300 mr-1">Highlight</span>
+      {(Object.keys(HIGHLIGHT_COLORS) as HighlightColor[]).map(color => (
+        <button
+          key={color}
+          onClick={() => onHighlight(color)}
+          className="h-5 w-5 rounded-full border border-black/10 hover:scale-110 transition-transform"
+          style={{ background: HIGHLIGHT_COLORS[color].fill }}
+          aria-label={`Highlight in ${HIGHLIGHT_COLORS[color].label.toLowerCase()}`}
+          title={HIGHLIGHT_COLORS[color].label}
+        />
+      ))}
+    </div>
+    {actions.length > 0 && onAction && (
+      <div className="flex items-center gap-1 border-t dark:border-gray-700 pt-1">
+        <MessageSquare className="h-3.5 w-3.5 text-gray-500 dark:text-gray-400 mr-0.5" aria-hidden="true" />
+        {actions.map(action => (
+          <button
+            key={action.id}
+            onClick={() => onAction(action.id)}
+            className="rounded px-1.5 py-0.5 text-xs whitespace-nowrap text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            {action.label}
+          </button>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default PDFSelectionMenu;
@@ -0,0 +1,162 @@
+// src/components/PDFTables.tsx
+import { useEffect, useRef, useState } from 'react';
+import { Check, Copy, Download, X } from 'lucide-react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { cn } from '@/lib/utils';
+import { downloadFile } from '@/lib/download';
+import { extractTables, tableToCsv, tableToTsv, type ExtractedTable, type TableCell } from '@/lib/tables';
+
+interface PDFTablesProps {
+  pdf: PDFDocumentProxy;
+  currentPage: number;
+  className?: string;
+}
+
+const iconButton = 'flex items-center gap-1 px-2 py-1 rounded-md text-xs hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors';
+
+// First text in the table, which is usually its title or the label column's heading
+const tableTitle = (table: ExtractedTable, index: number) =>
+  table.rows.flat().find(cell => cell.text && !cell.number)?.text ?? `Table ${index + 1}`;
+
+const formatNumber = ({ number }: TableCell) => {
+  if (!number) return undefined;
+  const value = number.value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+  const parts = [`${number.currency ? `${number.currency} ` : ''}${value}${number.percent ? '%' : ''}${number.percentagePoints ? ' pp' : ''}`];
+  if (number.prior !== undefined) parts.push(`prior ${number.prior.toLocaleString()}`);
+  return parts.join(', ');
+};
+
+const downloadCsv = (table: ExtractedTable, index: number) => {
+  downloadFile(tableToCsv(table), `page-${table.page}-table-${index + 1}.csv`, 'text/csv;charset=utf-8');
+};
+
+const PDFTables = ({ pdf, currentPage, className = '' }: PDFTablesProps) => {
+  const cache = useRef(new Map<number, Promise<ExtractedTable[]>>());
+  const [tables, setTables] = useState<{ page: number; tables: ExtractedTable[] } | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Result of the last copy, shown on the button for a moment
+  const [copyResult, setCopyResult] = useState<{ id: string; ok: boolean } | null>(null);
+
+  useEffect(() => {
+    cache.current.clear();
+  }, [pdf]);
+
+  // Tables are detected for the page being read, once per page
+  useEffect(() => {
+    let cancelled = false;
+    let pending = cache.current.get(currentPage);
+    if (!pending) {
+      pending = pdf.getPage(currentPage)
+        .then(page => page.getTextContent())
+        .then(content => extractTables(content, currentPage));
+      cache.current.set(currentPage, pending);
+    }
+
+    pending
+      .then(found => {
+        if (cancelled) return;
+        setTables({ page: currentPage, tables: found });
+        setSelectedId(prev => (found.some(table => table.id === prev) ? prev : found[0]?.id ?? null));
+      })
+      .catch(() => {
+        if (!cancelled) setTables({ page: currentPage, tables: [] });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf, currentPage]);
+
+  // Writing to the clipboard fails when permission is denied or outside a secure context
+  const handleCopy = async (table: ExtractedTable) => {
+    let ok = true;
+    try {
+      await navigator.clipboard.writeText(tableToTsv(table));
+    } catch {
+      ok = false;
+    }
+    const result = { id: table.id, ok };
+    setCopyResult(result);
+    setTimeout(() => setCopyResult(current => (current === result ? null : current)), 1500);
+  };
+
+  const found = tables?.tables ?? [];
+  const selectedIndex = found.findIndex(table => table.id === selectedId);
+  const selected = found[selectedIndex];
+
+  return (
+    <div className={cn('flex flex-col overflow-hidden bg-gray-50 dark:bg-gray-900 border-r dark:border-gray-700 text-sm', className)}>
+      <div className="px-3 py-2 border-b dark:border-gray-700 text-xs font-semibold text-gray-600 dark:text-gray-300">
+        Tables on page {currentPage}
+      </div>
+
+      {!tables || tables.page !== currentPage ? (
+        <p className="p-3 text-xs text-gray-500 dark:text-gray-400 animate-pulse">Looking for tables…</p>
+      ) : found.length === 0 ? (
+        <p className="p-3 text-xs text-gray-500 dark:text-gray-400">No tables found on this page.</p>
+      ) : (
+        <>
+          <ul className="p-2 space-y-1 border-b dark:border-gray-700 max-h-40 overflow-y-auto" aria-label="Tables">
+            {found.map((table, index) => (
+              <li key={table.id}>
+                <button
+                  onClick={() => setSelectedId(table.id)}
+                  className={cn(
+                    'w-full flex justify-between gap-2 rounded px-2 py-1 text-left text-xs',
+                    table.id === selectedId
+                      ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-900 dark:text-blue-100 font-medium'
+                      : 'text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                  )}
+                  aria-pressed={table.id === selectedId}
+                >
+                  <span className="truncate">{tableTitle(table, index)}</span>
+                  <span className="shrink-0 opacity-60">{table.rows.length} × {table.columnCount}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {selected && (
+            <>
+              <div className="flex items-center gap-1 px-2 py-1 border-b dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                <button onClick={() => handleCopy(selected)} className={iconButton} title="Copy as tab-separated text">
+                  {copyResult?.id !== selected.id ? <Copy className="h-3.5 w-3.5" />
+                    : copyResult.ok ? <Check className="h-3.5 w-3.5" /> : <X className="h-3.5 w-3.5" />}
+                  {copyResult?.id !== selected.id ? 'Copy' : copyResult.ok ? 'Copied' : 'Copy failed'}
+                </button>
+                <button onClick={() => downloadCsv(selected, selectedIndex)} className={iconButton} title="Download as CSV">
+                  <Download className="h-3.5 w-3.5" />
+                  CSV
+                </button>
+              </div>
+              <div className="flex-1 overflow-auto p-2">
+                <table className="border-collapse text-xs bg-white dark:bg-gray-800">
+                  <tbody>
+                    {selected.rows.map((row, rowIndex) => (
+                      <tr key={rowIndex}>
+                        {row.map((cell, columnIndex) => (
+                          <td
+                            key={columnIndex}
+                            className={cn(
+                              'border border-gray-200 dark:border-gray-700 px-1.5 py-0.5 whitespace-nowrap',
+                              cell.number && 'text-right tabular-nums',
+                              cell.number && cell.number.value < 0 && 'text-red-600 dark:text-red-400'
+                            )}
+                            title={formatNumber(cell)}
+                          >
+                            {cell.text}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PDFTables;
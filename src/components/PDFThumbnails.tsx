@@ -0,0 +1,111 @@
+// src/components/PDFThumbnails.tsx
+import { useEffect, useRef, useState } from 'react';
+import { Thumbnail } from 'react-pdf';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { cn } from '@/lib/utils';
+
+interface PDFThumbnailsProps {
+  pdf: PDFDocumentProxy;
+  pageSizes: Array<{ width: number; height: number }>;
+  currentPage: number;
+  // Number of citations pointing at each page
+  citedPages?: Map<number, number>;
+  onSelectPage: (pageNumber: number) => void;
+  className?: string;
+}
+
+const THUMBNAIL_WIDTH = 96;
+
+const PDFThumbnails = ({
+  pdf,
+  pageSizes,
+  currentPage,
+  citedPages,
+  onSelectPage,
+  className = ''
+}: PDFThumbnailsProps) => {
+  const listRef = useRef<HTMLOListElement>(null);
+  const [visible, setVisible] = useState<Set<number>>(() => new Set());
+
+  // Like the main view, only thumbnails near the visible part of the strip are rendered
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      setVisible(prev => {
+        const next = new Set(prev);
+        entries.forEach(entry => {
+          const pageNumber = Number((entry.target as HTMLElement).dataset.thumbnail);
+          if (entry.isIntersecting) next.add(pageNumber);
+          else next.delete(pageNumber);
+        });
+        return next;
+      });
+    }, { root: list, rootMargin: '50% 0px' });
+
+    list.querySelectorAll('[data-thumbnail]').forEach(item => observer.observe(item));
+    return () => observer.disconnect();
+  }, [pdf, pageSizes]);
+
+  // Keep the current page's thumbnail in view
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-thumbnail="${currentPage}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [currentPage]);
+
+  return (
+    <ol
+      ref={listRef}
+      className={cn('overflow-y-auto p-2 space-y-3 bg-gray-50 dark:bg-gray-900 border-r dark:border-gray-700', className)}
+      aria-label="Page thumbnails"
+    >
+      {pageSizes.map((size, index) => {
+        const pageNumber = index + 1;
+        const citations = citedPages?.get(pageNumber) ?? 0;
+        const isCurrent = pageNumber === currentPage;
+
+        return (
+          <li key={pageNumber} data-thumbnail={pageNumber} className="flex flex-col items-center gap-1">
+            <div
+              className={cn(
+                'relative bg-white shadow-sm ring-offset-1 dark:ring-offset-gray-900',
+                isCurrent ? 'ring-2 ring-blue-500' : 'ring-1 ring-gray-200 dark:ring-gray-700'
+              )}
+              style={{ width: THUMBNAIL_WIDTH, height: THUMBNAIL_WIDTH * size.height / size.width }}
+            >
+              {visible.has(pageNumber) && (
+                <Thumbnail
+                  pdf={pdf}
+                  pageNumber={pageNumber}
+                  width={THUMBNAIL_WIDTH}
+                  loading=""
+                  onItemClick={() => onSelectPage(pageNumber)}
+                />
+              )}
+              {citations > 0 && (
+                <span
+                  className="absolute -top-1.5 -right-1.5 min-w-4 h-4 px-1 rounded-full bg-blue-600 text-white text-[10px] leading-4 text-center"
+                  title={`Cited ${citations} ${citations === 1 ? 'time' : 'times'} in this chat`}
+                >
+                  {citations}
+                </span>
+              )}
+            </div>
+            <button
+              onClick={() => onSelectPage(pageNumber)}
+              className={cn('text-xs', isCurrent ? 'font-semibold text-blue-600 dark:text-blue-400' : 'text-gray-600 dark:text-gray-400')}
+              aria-label={`Go to page ${pageNumber}${citations > 0 ? `, cited ${citations} ${citations === 1 ? 'time' : 'times'}` : ''}`}
+              aria-current={isCurrent ? 'page' : undefined}
+            >
+              {pageNumber}
+            </button>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default PDFThumbnails;
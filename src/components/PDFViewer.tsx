@@ -1,160 +1,1200 @@
 // src/components/PDFViewer.tsx
-import { useState, useRef, useImperativeHandle, forwardRef } from 'react';
-import { Document, Page, pdfjs } from 'react-pdf';
+import { useState, useRef, useImperativeHandle, forwardRef, useCallback, useEffect, useMemo } from 'react';
+import { Highlighter, ListTree, Minus, PanelLeft, Plus, Search, Table2, X } from 'lucide-react';
+import { Document, Page, PasswordResponses, type DocumentProps } from 'react-pdf';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { findTextMatches } from '@/lib/textMatch';
+import { matchTextLayer, textContentParts, toPageRect, type HighlightRect, type TextLayerMatch, type TextMatcher } from '@/lib/textLayer';
+import { HIGHLIGHT_COLORS, mergeRects, type Annotation, type HighlightColor } from '@/lib/annotations';
+import { findActiveOutlineNode, findOutlineNodeByTitle, loadOutline, type OutlineNode } from '@/lib/pdfOutline';
+import { renderTextCrop } from '@/lib/pageCrop';
+import { describePdfError, passwordProblem, pdfDocumentOptions, type PdfLoadProblem } from '@/lib/pdfjs';
+import { buildSearchPattern, defaultSearchOptions, findPatternMatches, type SearchOptions } from '@/lib/textSearch';
+import { cn } from '@/lib/utils';
+import { CSS_UNITS, ZOOM_STEPS, usePDFZoom, type ZoomMode } from '@/hooks/usePDFZoom';
+import { useAnnotations } from '@/hooks/useAnnotations';
+import PDFFindBar from './PDFFindBar';
+import PDFThumbnails from './PDFThumbnails';
+import PDFOutline from './PDFOutline';
+import PDFTables from './PDFTables';
+import PDFAnnotations from './PDFAnnotations';
+import PDFSelectionMenu, { type SelectionMenuAction } from './PDFSelectionMenu';
+import PDFLoadError from './PDFLoadError';
+import PDFPasswordPrompt from './PDFPasswordPrompt';
 import 'react-pdf/dist/Page/AnnotationLayer.css';
 import 'react-pdf/dist/Page/TextLayer.css';
 
-// Set up the worker for PDF.js
-const pdfjsWorker = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjs.version}/pdf.worker.min.js`;
-pdfjs.GlobalWorkerOptions.workerSrc = pdfjsWorker;
+export interface PDFDocumentInfo {
+  numPages: number;
+  // Title from the PDF metadata, when the document has one
+  title: string | null;
+}
+
+// Where opening the document has got to
+export type PDFLoadState =
+  | { status: 'loading' }
+  | { status: 'password'; incorrect: boolean }
+  // `password` is what the document was opened with, so it can be opened again elsewhere, e.g. for indexing
+  | { status: 'loaded'; info: PDFDocumentInfo; password?: string }
+  | { status: 'error'; problem: PdfLoadProblem };
+
+// Text selected within one page, with its boxes as fractions of the page size
+export interface PDFTextSelection {
+  page: number;
+  text: string;
+  rects: HighlightRect[];
+}
 
 interface PDFViewerProps {
   file: string | File | null;
+  // Identifies the document across reloads, e.g. to remember its zoom
+  documentId?: string;
+  // Used to name exported highlights
+  documentTitle?: string;
   className?: string;
+  // Pages referenced by citations, one entry per citation; marked in the thumbnails
+  citedPages?: number[];
+  onDocumentLoad?: (info: PDFDocumentInfo) => void;
+  onLoadStateChange?: (state: PDFLoadState) => void;
+  // The page covering the middle of the view, and the outline entry it falls under
+  onPageChange?: (page: number) => void;
+  onSectionChange?: (section: OutlineNode | null) => void;
+  // Scale (1 = 100%) and whether it follows the viewer's size
+  onZoomChange?: (zoom: { scale: number; mode: ZoomMode }) => void;
+  // Called with null when the selection is cleared
+  onTextSelect?: (selection: PDFTextSelection | null) => void;
+  // Bytes of the document received so far; total is 0 when the size isn't known
+  onLoadProgress?: (progress: { loaded: number; total: number }) => void;
+  // Extra entries for the menu shown on selected text, e.g. questions for the chat
+  selectionActions?: SelectionMenuAction[];
+  onSelectionAction?: (actionId: string, selection: { text: string; page: number }) => void;
+}
+
+// Matches of a highlight on one page
+export interface HighlightMatch {
+  page: number;
+  count: number;
+  // Boxes as fractions of the page size; empty for pages whose text layer hasn't rendered yet
+  rects: HighlightRect[];
+}
+
+export interface HighlightResult {
+  found: boolean;
+  count: number;
+  // Pages with matches, in page order
+  matches: HighlightMatch[];
+}
+
+export interface CitationTarget {
+  text: string;
+  page: number;
+}
+
+export interface CitationHighlightResult extends HighlightResult {
+  // Page the text was found on, or null when it wasn't found
+  page: number | null;
+  requestedPage: number;
+  searchedPages: number[];
 }
 
 export interface PDFViewerHandle {
-  highlightText: (text: string) => void;
+  // Highlights every occurrence of the text and scrolls to the first
+  highlightText: (text: string) => Promise<HighlightResult>;
+  highlightCitation: (citation: CitationTarget) => Promise<CitationHighlightResult>;
+  // Image (data URL) of the page region around the cited text, or null when it isn't on that page
+  renderCitationPreview: (citation: CitationTarget) => Promise<string | null>;
+  // Removes the search or citation highlight; saved highlights stay
+  clearHighlights: () => void;
+  scrollToPage: (page: number) => void;
+  getCurrentPage: () => number;
+  // Text of a page as extracted by pdf.js, or '' for pages the document doesn't have
+  getPageText: (page: number) => Promise<string>;
+  // A scale (1 = 100%) or one of the fit modes
+  setZoom: (zoom: number | Exclude<ZoomMode, 'custom'>) => void;
+  // Jumps to the outline entry with a matching title; false when the outline has none
+  goToSection: (title: string) => boolean;
 }
 
+interface PageSize {
+  width: number;
+  height: number;
+}
+
+// Pages this many viewport heights above or below the visible area stay mounted
+const OVERSCAN_SCREENS = 1;
+
+// How many pages either side of the cited page are searched before giving up
+const NEIGHBOUR_PAGES = 2;
+const TEXT_LAYER_TIMEOUT = 5000;
+// Delay before the find bar searches while the user is still typing
+const FIND_DEBOUNCE = 250;
+
+type SidePanel = 'thumbnails' | 'outline' | 'tables' | 'annotations';
+
+// Icon buttons in the toolbar, with a focus ring for keyboard users
+const toolbarButton = (pressed = false) => cn(
+  'p-1.5 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+  pressed && 'bg-gray-200 dark:bg-gray-700'
+);
+
+// Text selected on one page, with where to show the selection menu
+interface PageSelection extends PDFTextSelection {
+  menuLeft: number;
+  menuTop: number;
+}
+
+// A find bar result: the nth match of the pattern on a page
+interface FindResult {
+  page: number;
+  index: number;
+}
+
+interface FindState {
+  pattern: RegExp | null;
+  results: FindResult[];
+}
+
+// The cited page first, then alternating outwards through its neighbours
+const candidatePages = (page: number, numPages: number): number[] => {
+  if (!Number.isInteger(page) || page < 1 || page > numPages) {
+    return Array.from({ length: numPages }, (_, index) => index + 1);
+  }
+
+  const pages = [page];
+  for (let distance = 1; distance <= NEIGHBOUR_PAGES; distance++) {
+    if (page + distance <= numPages) pages.push(page + distance);
+    if (page - distance >= 1) pages.push(page - distance);
+  }
+  return pages;
+};
+
 const PDFViewer = forwardRef<PDFViewerHandle, PDFViewerProps>(({ 
   file, 
-  className = '' 
+  documentId,
+  documentTitle,
+  className = '',
+  citedPages,
+  onDocumentLoad,
+  onLoadStateChange,
+  onPageChange,
+  onSectionChange,
+  onZoomChange,
+  onTextSelect,
+  onLoadProgress,
+  selectionActions,
+  onSelectionAction
 }, ref) => {
   const [numPages, setNumPages] = useState<number>(0);
-  const [scale, setScale] = useState<number>(1.0);
+  const [pageSizes, setPageSizes] = useState<PageSize[]>([]);
+  const [visiblePages, setVisiblePages] = useState<Set<number>>(() => new Set());
+  const [highlights, setHighlights] = useState<Record<number, HighlightRect[]>>({});
   // Loading state is handled by react-pdf's loading prop
   const containerRef = useRef<HTMLDivElement>(null);
+  const pdfRef = useRef<PDFDocumentProxy | null>(null);
+  const pageRefs = useRef(new Map<number, HTMLDivElement>());
+  const pageTextCache = useRef(new Map<number, Promise<string[]>>());
+  const previewCache = useRef(new Map<string, Promise<string | null>>());
+  const renderedTextLayers = useRef(new Set<number>());
+  const textLayerWaiters = useRef(new Map<number, Array<() => void>>());
+  // What is currently highlighted and on which pages, re-applied whenever one of
+  // those pages (re)renders its text layer
+  const highlightQuery = useRef<{ matcher: TextMatcher; pages: Set<number> } | null>(null);
+  const [pdfDocument, setPdfDocument] = useState<PDFDocumentProxy | null>(null);
+  // What failed to load, for the document as a whole or for drawing one of its pages
+  const [loadProblem, setLoadProblem] = useState<PdfLoadProblem | null>(null);
+  const [renderProblem, setRenderProblem] = useState<PdfLoadProblem | null>(null);
+  // Bumped to load the document again after a failure
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const [passwordRequest, setPasswordRequest] = useState<{ incorrect: boolean; respond: (password: string) => void } | null>(null);
+  const passwordRef = useRef<string>();
+  const fileRef = useRef(file);
+  fileRef.current = file;
+  const onLoadStateChangeRef = useRef(onLoadStateChange);
+  onLoadStateChangeRef.current = onLoadStateChange;
 
-  // Expose the highlightText method via ref
-  useImperativeHandle(ref, () => ({
-    highlightText: (text: string) => {
-      if (!containerRef.current || !text) return { found: false };
+  // Saved highlights and the selection they are made from
+  const {
+    annotations,
+    addAnnotation,
+    updateAnnotation,
+    removeAnnotation,
+    saveFailed: annotationsUnsaved,
+    dismissSaveFailure
+  } = useAnnotations(documentId);
+  const [selection, setSelection] = useState<PageSelection | null>(null);
+  const annotationsByPage = useMemo(() => {
+    const byPage = new Map<number, Annotation[]>();
+    annotations.forEach(annotation => byPage.set(annotation.page, [...(byPage.get(annotation.page) ?? []), annotation]));
+    return byPage;
+  }, [annotations]);
 
-      // Remove previous highlights
-      const highlights = containerRef.current.querySelectorAll<HTMLElement>('.highlighted-text');
-      highlights.forEach((highlight: HTMLElement) => {
-        highlight.classList.remove('highlighted-text', 'bg-yellow-300');
-      });
+  // Find bar
+  const [isFindOpen, setIsFindOpen] = useState(false);
+  const [findQuery, setFindQuery] = useState('');
+  const [findOptions, setFindOptions] = useState<SearchOptions>(defaultSearchOptions);
+  const [find, setFind] = useState<FindState>({ pattern: null, results: [] });
+  const [currentFind, setCurrentFind] = useState(-1);
+  const [isSearching, setIsSearching] = useState(false);
+  const [findError, setFindError] = useState<string | null>(null);
+  const findInputRef = useRef<HTMLInputElement>(null);
+  const findMatcherRef = useRef<TextMatcher | null>(null);
 
-      // Search through all text layers
-      const textLayers = containerRef.current.querySelectorAll('.react-pdf__Page__textContent');
-      let firstMatch: HTMLElement | null = null;
-      const searchText = text.toLowerCase();
-      let found = false;
-
-      textLayers.forEach((layer: Element) => {
-        const walker = document.createTreeWalker(
-          layer,
-          NodeFilter.SHOW_TEXT,
-          { acceptNode: () => NodeFilter.FILTER_ACCEPT }
-        );
-
-        let node: Node | null;
-        while ((node = walker.nextNode())) {
-          if (node.nodeValue && node.nodeValue.toLowerCase().includes(searchText)) {
-            found = true;
-            const parent = node.parentNode as HTMLElement;
-            if (parent && !parent.classList.contains('highlighted-text')) {
-              // Highlight the text
-              parent.classList.add('highlighted-text', 'bg-yellow-300');
-              
-              // Save the first match for scrolling
-              if (!firstMatch) {
-                firstMatch = parent;
-              }
-            }
+  // Zoom around the current highlight when it is on screen
+  const getHighlightAnchor = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return null;
+
+    const box = container.getBoundingClientRect();
+    for (const element of Array.from(container.querySelectorAll('.highlighted-text'))) {
+      const rect = element.getBoundingClientRect();
+      if (rect.bottom > box.top && rect.top < box.bottom) {
+        return { clientX: rect.left + rect.width / 2, clientY: rect.top + rect.height / 2 };
+      }
+    }
+    return null;
+  }, []);
+
+  const { scale, zoomMode, setZoomMode, zoomTo, zoomIn, zoomOut } = usePDFZoom({
+    containerRef,
+    pageRefs,
+    pageSizes,
+    documentId,
+    getDefaultAnchor: getHighlightAnchor
+  });
+
+  // Page navigation
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageInput, setPageInput] = useState('1');
+  const [sidePanel, setSidePanel] = useState<SidePanel | null>(null);
+  const [outline, setOutline] = useState<OutlineNode[]>([]);
+
+  // Text of a page straight from pdf.js, so pages can be searched before they render
+  const getPageText = useCallback((pageNumber: number) => {
+    const cached = pageTextCache.current.get(pageNumber);
+    if (cached) return cached;
+
+    const pdf = pdfRef.current;
+    if (!pdf) return Promise.resolve([]);
+
+    const parts = pdf.getPage(pageNumber)
+      .then(page => page.getTextContent())
+      .then(textContentParts);
+    pageTextCache.current.set(pageNumber, parts);
+    return parts;
+  }, []);
+
+  // Resolves once the text layer of the page has rendered at the current scale
+  const waitForTextLayer = useCallback((pageNumber: number) => new Promise<boolean>(resolve => {
+    if (renderedTextLayers.current.has(pageNumber)) {
+      resolve(true);
+      return;
+    }
+
+    const timer = setTimeout(() => resolve(false), TEXT_LAYER_TIMEOUT);
+    const waiters = textLayerWaiters.current.get(pageNumber) ?? [];
+    waiters.push(() => {
+      clearTimeout(timer);
+      resolve(true);
+    });
+    textLayerWaiters.current.set(pageNumber, waiters);
+  }), []);
+
+  // Draw the current highlight query on a page whose text layer is in the DOM
+  const applyHighlight = useCallback((pageNumber: number): TextLayerMatch | null => {
+    const query = highlightQuery.current;
+    if (!query || !query.pages.has(pageNumber)) return null;
+
+    const pageElement = pageRefs.current.get(pageNumber)?.querySelector<HTMLElement>('.react-pdf__Page');
+    if (!pageElement) return null;
+
+    const match = matchTextLayer(pageElement, query.matcher);
+    setHighlights(prev => ({ ...prev, [pageNumber]: match.rects }));
+    return match;
+  }, []);
+
+  const onTextLayerRendered = (pageNumber: number) => {
+    renderedTextLayers.current.add(pageNumber);
+    applyHighlight(pageNumber);
+    textLayerWaiters.current.get(pageNumber)?.forEach(resolve => resolve());
+    textLayerWaiters.current.delete(pageNumber);
+  };
+
+  // Text layers re-render whenever the scale changes
+  useEffect(() => {
+    renderedTextLayers.current.clear();
+  }, [scale]);
+
+  // Only pages within about a screen of the viewport get mounted. Slots are observed
+  // as they attach (see slotRef), so remounted slots are picked up too.
+  const pageObserver = useRef<IntersectionObserver | null>(null);
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      setVisiblePages(prev => {
+        const next = new Set(prev);
+        entries.forEach(entry => {
+          const pageNumber = Number((entry.target as HTMLElement).dataset.pageSlot);
+          if (entry.isIntersecting) {
+            next.add(pageNumber);
+          } else {
+            next.delete(pageNumber);
+            renderedTextLayers.current.delete(pageNumber);
           }
-        }
+        });
+        return next;
       });
+    }, { root: container, rootMargin: `${OVERSCAN_SCREENS * 100}% 0px` });
 
-      // Scroll to the first match if found
-      if (firstMatch) {
-        const element = firstMatch as HTMLElement;
-        element.scrollIntoView({
-          behavior: 'smooth',
-          block: 'center'
-        });
+    pageObserver.current = observer;
+    pageRefs.current.forEach(slot => observer.observe(slot));
+    return () => {
+      observer.disconnect();
+      pageObserver.current = null;
+    };
+  }, []);
+
+  // One stable ref callback per page, so a slot is only (un)observed when it attaches or detaches
+  const slotRefs = useRef(new Map<number, (element: HTMLDivElement | null) => void>());
+  const slotRef = (pageNumber: number) => {
+    let callback = slotRefs.current.get(pageNumber);
+    if (!callback) {
+      callback = (element) => {
+        const previous = pageRefs.current.get(pageNumber);
+        if (previous) pageObserver.current?.unobserve(previous);
+        if (element) {
+          pageRefs.current.set(pageNumber, element);
+          pageObserver.current?.observe(element);
+        } else {
+          pageRefs.current.delete(pageNumber);
+        }
+      };
+      slotRefs.current.set(pageNumber, callback);
+    }
+    return callback;
+  };
+
+  // A new document starts with no pages mounted; observing slots that were kept
+  // again makes the observer report which of them are in view
+  useEffect(() => {
+    const observer = pageObserver.current;
+    if (!observer) return;
+    pageRefs.current.forEach(slot => {
+      observer.unobserve(slot);
+      observer.observe(slot);
+    });
+  }, [pdfDocument]);
+
+  // Scroll a match to the middle of the viewer
+  const scrollToRect = (rect: DOMRect) => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const containerBox = container.getBoundingClientRect();
+    container.scrollTo({
+      top: container.scrollTop + rect.top - containerBox.top - (containerBox.height - rect.height) / 2,
+      behavior: 'smooth'
+    });
+  };
+
+  // Highlight matches on the given pages, then bring the first one into view. Pages that
+  // aren't mounted yet are scrolled to and highlighted once their text layer renders.
+  // Resolves with the boxes drawn so far, by page.
+  const showHighlight = useCallback(async (matcher: TextMatcher, pages: number[]) => {
+    highlightQuery.current = { matcher, pages: new Set(pages) };
+    setHighlights({});
+    const drawn = new Map<number, HighlightRect[]>();
+    if (pages.length === 0) return drawn;
+
+    const draw = (pageNumber: number) => {
+      const match = applyHighlight(pageNumber);
+      if (match) drawn.set(pageNumber, match.rects);
+      return match;
+    };
+
+    const [firstPage] = pages;
+    pageRefs.current.get(firstPage)?.scrollIntoView({ block: 'start' });
+    pages.forEach(pageNumber => {
+      if (renderedTextLayers.current.has(pageNumber)) draw(pageNumber);
+    });
+
+    await waitForTextLayer(firstPage);
+    const match = draw(firstPage);
+    if (match?.first) scrollToRect(match.first);
+    return drawn;
+  }, [applyHighlight, waitForTextLayer]);
+
+  // Search every page's extracted text whenever the query or options change
+  useEffect(() => {
+    if (!isFindOpen || !pdfDocument) return;
+
+    let pattern: RegExp | null;
+    try {
+      pattern = buildSearchPattern(findQuery, findOptions);
+      setFindError(null);
+    } catch {
+      setFindError('Invalid expression');
+      setFind({ pattern: null, results: [] });
+      return;
+    }
+
+    if (!pattern) {
+      setFind({ pattern: null, results: [] });
+      setCurrentFind(-1);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      const results: FindResult[] = [];
+      try {
+        for (let pageNumber = 1; pageNumber <= pdfDocument.numPages; pageNumber++) {
+          // A page whose text can't be read counts as having no matches
+          const parts = await getPageText(pageNumber).catch(() => []);
+          if (cancelled) return;
+          const count = findPatternMatches(parts, pattern).length;
+          for (let index = 0; index < count; index++) results.push({ page: pageNumber, index });
+        }
+
+        setFind({ pattern, results });
+        setCurrentFind(results.length > 0 ? 0 : -1);
+      } finally {
+        // A newer search owns the spinner once this one is cancelled
+        if (!cancelled) setIsSearching(false);
+      }
+    }, FIND_DEBOUNCE);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setIsSearching(false);
+    };
+  }, [isFindOpen, findQuery, findOptions, pdfDocument, getPageText]);
+
+  // Highlight the current find result
+  useEffect(() => {
+    const result = find.results[currentFind];
+    const { pattern } = find;
+    if (!result || !pattern) {
+      // Only clear the highlight if it still belongs to the find bar
+      if (findMatcherRef.current && highlightQuery.current?.matcher === findMatcherRef.current) {
+        showHighlight(() => [], []);
+      }
+      findMatcherRef.current = null;
+      return;
+    }
+
+    const matcher: TextMatcher = parts => {
+      const match = findPatternMatches(parts, pattern)[result.index];
+      return match ? [match] : [];
+    };
+    findMatcherRef.current = matcher;
+    showHighlight(matcher, [result.page]);
+  }, [find, currentFind, showHighlight]);
+
+  const stepFind = (direction: 1 | -1) => {
+    const total = find.results.length;
+    if (total === 0) return;
+    setCurrentFind(prev => (prev + direction + total) % total);
+  };
+
+  const openFind = () => {
+    setIsFindOpen(true);
+    requestAnimationFrame(() => findInputRef.current?.select());
+  };
+
+  const closeFind = () => {
+    setIsFindOpen(false);
+    setFind({ pattern: null, results: [] });
+    setCurrentFind(-1);
+    setFindError(null);
+    containerRef.current?.focus();
+  };
+
+  // The current page is the one covering the middle of the viewport
+  const updateCurrentPage = useCallback(() => {
+    const container = containerRef.current;
+    // A hidden viewer has no layout to go by; it keeps its page until shown again
+    if (!container || container.clientHeight === 0) return;
+
+    const middle = container.scrollTop + container.clientHeight / 2;
+    let page = 1;
+    pageRefs.current.forEach((slot, pageNumber) => {
+      if (slot.offsetTop <= middle && pageNumber > page) page = pageNumber;
+    });
+    setCurrentPage(page);
+  }, []);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let frame = 0;
+    const onScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(updateCurrentPage);
+    };
+    container.addEventListener('scroll', onScroll, { passive: true });
+    return () => {
+      container.removeEventListener('scroll', onScroll);
+      cancelAnimationFrame(frame);
+    };
+  }, [updateCurrentPage]);
+
+  useEffect(() => {
+    setPageInput(String(currentPage));
+  }, [currentPage]);
+
+  // Report page and section changes through the latest callbacks, without
+  // depending on the parent keeping them stable
+  const activeSection = useMemo(() => findActiveOutlineNode(outline, currentPage), [outline, currentPage]);
+  const onPageChangeRef = useRef(onPageChange);
+  onPageChangeRef.current = onPageChange;
+  const onSectionChangeRef = useRef(onSectionChange);
+  onSectionChangeRef.current = onSectionChange;
+
+  useEffect(() => {
+    onPageChangeRef.current?.(currentPage);
+  }, [currentPage]);
+
+  useEffect(() => {
+    onSectionChangeRef.current?.(activeSection);
+  }, [activeSection]);
+
+  const onZoomChangeRef = useRef(onZoomChange);
+  onZoomChangeRef.current = onZoomChange;
+  const onTextSelectRef = useRef(onTextSelect);
+  onTextSelectRef.current = onTextSelect;
+  const onLoadProgressRef = useRef(onLoadProgress);
+  onLoadProgressRef.current = onLoadProgress;
+  const currentPageRef = useRef(currentPage);
+  currentPageRef.current = currentPage;
+
+  useEffect(() => {
+    onZoomChangeRef.current?.({ scale, mode: zoomMode });
+  }, [scale, zoomMode]);
+
+  const goToPage = useCallback((pageNumber: number) => {
+    if (numPages === 0) return;
+    const target = Math.min(Math.max(Math.round(pageNumber), 1), numPages);
+    pageRefs.current.get(target)?.scrollIntoView({ block: 'start' });
+    setCurrentPage(target);
+  }, [numPages]);
+
+  // Jump to an outline entry, down to its position on the page when it has one
+  const goToOutlineNode = useCallback(({ pageNumber, top }: OutlineNode) => {
+    if (pageNumber === null) return;
+    const slot = pageRefs.current.get(pageNumber);
+    const container = containerRef.current;
+    if (!slot || !container || top === null) {
+      goToPage(pageNumber);
+      return;
+    }
+
+    container.scrollTo({ top: slot.offsetTop + top * slot.offsetHeight });
+    setCurrentPage(pageNumber);
+  }, [goToPage]);
+
+  const goToAnnotation = ({ page, rects }: Annotation) => {
+    const slot = pageRefs.current.get(page);
+    const container = containerRef.current;
+    if (!slot || !container || rects.length === 0) {
+      goToPage(page);
+      return;
+    }
+
+    // Leave a little room above the highlight
+    container.scrollTo({ top: slot.offsetTop + rects[0].top * slot.offsetHeight - 48, behavior: 'smooth' });
+    setCurrentPage(page);
+  };
+
+  // Expose the viewer's methods via ref
+  useImperativeHandle(ref, () => ({
+    highlightText: async (text: string) => {
+      const matcher: TextMatcher = parts => findTextMatches(parts, text);
+      if (!text || !pdfRef.current) {
+        await showHighlight(matcher, []);
+        return { found: false, count: 0, matches: [] };
       }
 
-      return { found };
+      const pageNumbers = Array.from({ length: numPages }, (_, index) => index + 1);
+      const counts = await Promise.all(pageNumbers.map(async pageNumber =>
+        matcher(await getPageText(pageNumber)).length
+      ));
+
+      const pages = pageNumbers.filter((_, index) => counts[index] > 0);
+      const count = counts.reduce((total, pageCount) => total + pageCount, 0);
+      const drawn = await showHighlight(matcher, pages);
+      const matches = pages.map(pageNumber => ({
+        page: pageNumber,
+        count: counts[pageNumber - 1],
+        rects: drawn.get(pageNumber) ?? []
+      }));
+
+      return { found: count > 0, count, matches };
+    },
+
+    highlightCitation: async ({ text, page }: CitationTarget) => {
+      const matcher: TextMatcher = parts => findTextMatches(parts, text);
+      const searchedPages: number[] = [];
+
+      if (text && pdfRef.current) {
+        for (const pageNumber of candidatePages(page, numPages)) {
+          searchedPages.push(pageNumber);
+          const count = matcher(await getPageText(pageNumber)).length;
+          if (count === 0) continue;
+
+          const drawn = await showHighlight(matcher, [pageNumber]);
+          const matches = [{ page: pageNumber, count, rects: drawn.get(pageNumber) ?? [] }];
+          return { found: true, count, matches, page: pageNumber, requestedPage: page, searchedPages };
+        }
+      }
+
+      await showHighlight(matcher, []);
+      return { found: false, count: 0, matches: [], page: null, requestedPage: page, searchedPages };
+    },
+
+    renderCitationPreview: ({ text, page }: CitationTarget) => {
+      const pdf = pdfRef.current;
+      if (!pdf || !text || page < 1 || page > pdf.numPages) return Promise.resolve(null);
+
+      const key = `${page}:${text}`;
+      let preview = previewCache.current.get(key);
+      if (!preview) {
+        preview = renderTextCrop(pdf, page, text).catch(() => null);
+        previewCache.current.set(key, preview);
+      }
+      return preview;
+    },
+
+    clearHighlights: () => {
+      showHighlight(() => [], []);
+    },
+
+    scrollToPage: goToPage,
+
+    getCurrentPage: () => currentPageRef.current,
+
+    getPageText: async (pageNumber: number) => {
+      if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > numPages) return '';
+      return (await getPageText(pageNumber)).join('');
+    },
+
+    setZoom: (zoom) => {
+      if (typeof zoom === 'number') zoomTo(zoom);
+      else setZoomMode(zoom);
+    },
+
+    goToSection: (title: string) => {
+      const node = findOutlineNodeByTitle(outline, title);
+      if (node) goToOutlineNode(node);
+      return node !== null;
+    }
+  }), [numPages, outline, getPageText, showHighlight, goToPage, goToOutlineNode, zoomTo, setZoomMode]);
+
+  // Offer the selection menu when text inside one page's text layer is selected
+  const handleSelectionEnd = () => {
+    const container = containerRef.current;
+    const selected = window.getSelection();
+    if (!container || !selected || selected.isCollapsed || selected.rangeCount === 0) {
+      setSelection(null);
+      return;
     }
-  }));
 
-  const onDocumentLoadSuccess = ({ numPages }: { numPages: number }) => {
-    setNumPages(numPages);
+    const range = selected.getRangeAt(0);
+    const text = selected.toString().trim();
+    const startElement = range.startContainer.parentElement;
+    const endElement = range.endContainer.parentElement;
+    const slot = startElement?.closest<HTMLElement>('[data-page-slot]');
+    const pageElement = slot?.querySelector<HTMLElement>('.react-pdf__Page');
+    if (
+      !text || !slot || !pageElement ||
+      slot !== endElement?.closest('[data-page-slot]') ||
+      !startElement?.closest('.react-pdf__Page__textContent')
+    ) {
+      setSelection(null);
+      return;
+    }
+
+    const pageBox = pageElement.getBoundingClientRect();
+    const clientRects = Array.from(range.getClientRects())
+      // Skip empty boxes and the text layer's full-height end-of-content marker
+      .filter(rect => rect.width > 0 && rect.height > 0 && rect.height < pageBox.height * 0.2);
+    if (clientRects.length === 0) {
+      setSelection(null);
+      return;
+    }
+
+    const last = clientRects[clientRects.length - 1];
+    const containerBox = container.getBoundingClientRect();
+    setSelection({
+      page: Number(slot.dataset.pageSlot),
+      text,
+      rects: mergeRects(clientRects.map(rect => toPageRect(rect, pageBox))),
+      menuLeft: last.left + last.width / 2 - containerBox.left + container.scrollLeft,
+      menuTop: last.bottom - containerBox.top + container.scrollTop + 6
+    });
+  };
+
+  const handleHighlightSelection = (color: HighlightColor) => {
+    if (!selection) return;
+    addAnnotation({ page: selection.page, text: selection.text, color, rects: selection.rects });
+    window.getSelection()?.removeAllRanges();
+    setSelection(null);
+  };
+
+  const handleSelectionAction = (actionId: string) => {
+    if (!selection) return;
+    onSelectionAction?.(actionId, { text: selection.text, page: selection.page });
+    window.getSelection()?.removeAllRanges();
+    setSelection(null);
+  };
+
+  // The menu is positioned for the current layout, so drop it when pages resize
+  useEffect(() => {
+    setSelection(null);
+  }, [scale, documentId]);
+
+  useEffect(() => {
+    onTextSelectRef.current?.(selection && { page: selection.page, text: selection.text, rects: selection.rects });
+  }, [selection]);
+
+  const toggleSidePanel = (panel: SidePanel) => {
+    setSidePanel(prev => (prev === panel ? null : panel));
   };
 
-  const zoomIn = () => setScale(prev => Math.min(prev + 0.1, 2.0));
-  const zoomOut = () => setScale(prev => Math.max(prev - 0.1, 0.5));
+  const commitPageInput = () => {
+    const pageNumber = Number(pageInput);
+    if (Number.isFinite(pageNumber) && pageInput.trim()) goToPage(pageNumber);
+    else setPageInput(String(currentPage));
+  };
+
+  const citationCounts = useMemo(() => {
+    const counts = new Map<number, number>();
+    citedPages?.forEach(page => counts.set(page, (counts.get(page) ?? 0) + 1));
+    return counts;
+  }, [citedPages]);
+
+  // Ctrl+F / Cmd+F opens the find bar while focus is inside the viewer; PgUp/PgDn and
+  // Home/End move between pages unless the user is typing
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'f') {
+      e.preventDefault();
+      openFind();
+      return;
+    }
+    if (e.key === 'F3') {
+      e.preventDefault();
+      stepFind(e.shiftKey ? -1 : 1);
+      return;
+    }
+
+    const target = e.target as HTMLElement;
+    if (target.closest('input, textarea, [contenteditable="true"]') || e.altKey || e.ctrlKey || e.metaKey) return;
+
+    const pageKeys: Record<string, number> = {
+      PageDown: currentPage + 1,
+      PageUp: currentPage - 1,
+      Home: 1,
+      End: numPages
+    };
+    if (e.key in pageKeys) {
+      e.preventDefault();
+      goToPage(pageKeys[e.key]);
+    }
+  };
+
+  useEffect(() => {
+    setLoadProblem(null);
+    setRenderProblem(null);
+    setPasswordRequest(null);
+    passwordRef.current = undefined;
+    onLoadStateChangeRef.current?.({ status: 'loading' });
+  }, [file]);
+
+  const showLoadProblem = (problem: PdfLoadProblem) => {
+    setLoadProblem(problem);
+    onLoadStateChangeRef.current?.({ status: 'error', problem });
+  };
+
+  // Diagnosing can take a moment, by which time another file may be open
+  const handleLoadError = async (error: Error) => {
+    const loadedFile = file;
+    const problem = await describePdfError(error, loadedFile);
+    if (fileRef.current === loadedFile) showLoadProblem(problem);
+  };
+
+  const retryLoad = () => {
+    setLoadProblem(null);
+    setRenderProblem(null);
+    setLoadAttempt(attempt => attempt + 1);
+    onLoadStateChangeRef.current?.({ status: 'loading' });
+  };
+
+  // pdf.js asks again, as INCORRECT_PASSWORD, until the right password is given
+  const handlePassword: NonNullable<DocumentProps['onPassword']> = (respond, reason) => {
+    const incorrect = reason === PasswordResponses.INCORRECT_PASSWORD;
+    setPasswordRequest({ incorrect, respond });
+    onLoadStateChangeRef.current?.({ status: 'password', incorrect });
+  };
+
+  const submitPassword = (password: string) => {
+    passwordRef.current = password;
+    passwordRequest?.respond(password);
+    setPasswordRequest(null);
+  };
+
+  // Giving up unmounts the Document, which abandons the pending load
+  const cancelPassword = () => {
+    setPasswordRequest(null);
+    showLoadProblem(passwordProblem(file));
+  };
+
+  const handlePageError = async (error: Error) => {
+    const loadedFile = file;
+    const problem = await describePdfError(error, loadedFile);
+    if (fileRef.current === loadedFile) setRenderProblem(prev => prev ?? problem);
+  };
+
+  const onDocumentLoadSuccess = async (pdf: PDFDocumentProxy) => {
+    pdfRef.current = pdf;
+    setPdfDocument(pdf);
+    pageTextCache.current.clear();
+    previewCache.current.clear();
+    renderedTextLayers.current.clear();
+    highlightQuery.current = null;
+    setHighlights({});
+    setVisiblePages(new Set());
+    setCurrentPage(1);
+    setOutline([]);
+    containerRef.current?.scrollTo({ top: 0 });
+
+    // Page sizes let unmounted pages keep their place in the scroll height
+    const sizes = await Promise.all(Array.from({ length: pdf.numPages }, async (_, index) => {
+      const page = await pdf.getPage(index + 1);
+      const { width, height } = page.getViewport({ scale: 1 });
+      return { width, height };
+    }));
+    if (pdfRef.current !== pdf) return;
+
+    setPageSizes(sizes);
+    setNumPages(pdf.numPages);
+
+    loadOutline(pdf)
+      .then(nodes => {
+        if (pdfRef.current === pdf) setOutline(nodes);
+      })
+      .catch(() => undefined);
+
+    const metadata = await pdf.getMetadata().catch(() => null);
+    if (pdfRef.current !== pdf) return;
+    const info = metadata?.info as { Title?: unknown } | undefined;
+    const title = typeof info?.Title === 'string' && info.Title.trim() ? info.Title.trim() : null;
+    const documentInfo = { numPages: pdf.numPages, title };
+    onDocumentLoad?.(documentInfo);
+    onLoadStateChangeRef.current?.({ status: 'loaded', info: documentInfo, password: passwordRef.current });
+  };
+
+  const handleZoomSelect = (value: string) => {
+    if (value === 'fit-width' || value === 'fit-page') setZoomMode(value);
+    else zoomTo(Number(value));
+  };
 
   return (
-    <div className={`pdf-viewer ${className}`}>
-      <div className="flex justify-between items-center mb-4 sticky top-0 bg-white dark:bg-gray-900 z-10 p-2 px-4 border-b dark:border-gray-700">
-        <div className="text-sm text-gray-600 dark:text-gray-300">
-          {numPages} {numPages === 1 ? 'page' : 'pages'}
+    <div className={cn('pdf-viewer flex flex-col min-h-0', className)} onKeyDown={handleKeyDown}>
+      <div className="shrink-0 flex flex-wrap gap-y-2 justify-between items-center mb-4 sticky top-0 bg-white dark:bg-gray-900 z-10 p-2 px-4 border-b dark:border-gray-700">
+        <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+          <button
+            onClick={() => toggleSidePanel('thumbnails')}
+            className={toolbarButton(sidePanel === 'thumbnails')}
+            aria-label={sidePanel === 'thumbnails' ? 'Hide thumbnails' : 'Show thumbnails'}
+            aria-pressed={sidePanel === 'thumbnails'}
+            title="Thumbnails"
+          >
+            <PanelLeft className="h-5 w-5" />
+          </button>
+          <button
+            onClick={() => toggleSidePanel('outline')}
+            className={toolbarButton(sidePanel === 'outline')}
+            aria-label={sidePanel === 'outline' ? 'Hide outline' : 'Show outline'}
+            aria-pressed={sidePanel === 'outline'}
+            title="Outline"
+          >
+            <ListTree className="h-5 w-5" />
+          </button>
+          <button
+            onClick={() => toggleSidePanel('tables')}
+            className={toolbarButton(sidePanel === 'tables')}
+            aria-label={sidePanel === 'tables' ? 'Hide tables' : 'Show tables'}
+            aria-pressed={sidePanel === 'tables'}
+            title="Tables"
+          >
+            <Table2 className="h-5 w-5" />
+          </button>
+          <button
+            onClick={() => toggleSidePanel('annotations')}
+            className={toolbarButton(sidePanel === 'annotations')}
+            aria-label={sidePanel === 'annotations' ? 'Hide highlights' : 'Show highlights'}
+            aria-pressed={sidePanel === 'annotations'}
+            title="Highlights"
+          >
+            <Highlighter className="h-5 w-5" />
+          </button>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={pageInput}
+            onChange={(e) => setPageInput(e.target.value.replace(/[^0-9]/g, ''))}
+            onBlur={commitPageInput}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitPageInput();
+              if (e.key === 'Escape') setPageInput(String(currentPage));
+            }}
+            disabled={numPages === 0}
+            className="h-7 w-12 rounded-md border border-input bg-transparent px-1 text-center focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+            aria-label="Current page"
+          />
+          <span>/ {numPages}</span>
         </div>
         <div className="flex space-x-2">
-          <button 
-            onClick={zoomOut} 
-            className="p-1.5 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+          <button
+            onClick={() => (isFindOpen ? closeFind() : openFind())}
+            className={toolbarButton(isFindOpen)}
+            aria-label="Find in document"
+            aria-pressed={isFindOpen}
+            title="Find in document (Ctrl+F)"
+          >
+            <Search className="h-5 w-5" />
+          </button>
+          <button
+            onClick={zoomOut}
+            className={toolbarButton()}
             aria-label="Zoom out"
             title="Zoom out"
           >
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
-            </svg>
+            <Minus className="h-5 w-5" />
           </button>
-          <span className="px-2 py-1.5 text-sm">{Math.round(scale * 100)}%</span>
-          <button 
-            onClick={zoomIn} 
-            className="p-1.5 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+          <select
+            value={zoomMode === 'custom' ? 'custom' : zoomMode}
+            onChange={(e) => handleZoomSelect(e.target.value)}
+            className="h-8 rounded-md border border-input bg-transparent px-1 text-sm dark:bg-gray-900 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+            aria-label="Zoom"
+          >
+            <option value="custom" hidden>{Math.round(scale * 100)}%</option>
+            <option value="fit-width">Fit width</option>
+            <option value="fit-page">Fit page</option>
+            {ZOOM_STEPS.map(step => (
+              <option key={step} value={step}>{Math.round(step * 100)}%</option>
+            ))}
+          </select>
+          <button
+            onClick={zoomIn}
+            className={toolbarButton()}
             aria-label="Zoom in"
             title="Zoom in"
           >
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-            </svg>
+            <Plus className="h-5 w-5" />
           </button>
         </div>
       </div>
 
-      <div 
-        ref={containerRef} 
-        className="pdf-container overflow-y-auto"
-        style={{ height: 'calc(100vh - 160px)' }}
-      >
-        <Document
-          file={file}
-          onLoadSuccess={onDocumentLoadSuccess}
-          loading={
-            <div className="flex items-center justify-center h-64">
-              <div className="animate-pulse">Loading PDF...</div>
-            </div>
-          }
-          error={
-            <div className="flex items-center justify-center h-64 text-red-500 p-4 text-center">
-              Failed to load PDF. Please check the file and try again.
-            </div>
-          }
+      {isFindOpen && (
+        <PDFFindBar
+          ref={findInputRef}
+          query={findQuery}
+          options={findOptions}
+          matchCount={find.results.length}
+          currentMatch={currentFind}
+          isSearching={isSearching}
+          error={findError}
+          onQueryChange={setFindQuery}
+          onOptionsChange={setFindOptions}
+          onNext={() => stepFind(1)}
+          onPrevious={() => stepFind(-1)}
+          onClose={closeFind}
+        />
+      )}
+
+      {renderProblem && (
+        <div
+          role="alert"
+          className="flex items-start justify-between gap-2 px-3 py-1.5 text-xs bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-200 border-b border-red-200 dark:border-red-800"
+        >
+          <span>Some pages may not display correctly. {renderProblem.message}</span>
+          <button
+            onClick={() => setRenderProblem(null)}
+            className="shrink-0 rounded p-0.5 hover:bg-red-100 dark:hover:bg-red-800/50"
+            aria-label="Dismiss"
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      )}
+
+      {annotationsUnsaved && (
+        <div
+          role="alert"
+          className="flex items-start justify-between gap-2 px-3 py-1.5 text-xs bg-amber-50 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200 border-b border-amber-200 dark:border-amber-800"
+        >
+          <span>Your highlights couldn't be saved because the browser's storage is full or unavailable. They'll be lost when the page is closed.</span>
+          <button
+            onClick={dismissSaveFailure}
+            className="shrink-0 rounded p-0.5 hover:bg-amber-100 dark:hover:bg-amber-800/50"
+            aria-label="Dismiss"
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-1 min-h-0">
+        {sidePanel === 'outline' && (
+          <PDFOutline
+            className="w-56 shrink-0"
+            outline={outline}
+            currentPage={currentPage}
+            onNavigate={goToOutlineNode}
+          />
+        )}
+        {sidePanel === 'thumbnails' && pdfDocument && (
+          <PDFThumbnails
+            className="w-36 shrink-0"
+            pdf={pdfDocument}
+            pageSizes={pageSizes}
+            currentPage={currentPage}
+            citedPages={citationCounts}
+            onSelectPage={goToPage}
+          />
+        )}
+        {sidePanel === 'tables' && pdfDocument && (
+          <PDFTables
+            className="w-96 max-w-[50%] shrink-0"
+            pdf={pdfDocument}
+            currentPage={currentPage}
+          />
+        )}
+        {sidePanel === 'annotations' && (
+          <PDFAnnotations
+            className="w-64 shrink-0"
+            annotations={annotations}
+            documentId={documentId ?? 'document'}
+            documentTitle={documentTitle ?? 'document'}
+            onSelect={goToAnnotation}
+            onUpdate={updateAnnotation}
+            onRemove={removeAnnotation}
+          />
+        )}
+        <div 
+          ref={containerRef} 
+          tabIndex={0}
+          onMouseUp={handleSelectionEnd}
+          onKeyUp={(e) => {
+            if (e.shiftKey || e.key === 'Shift') handleSelectionEnd();
+          }}
+          role="region"
+          aria-label={documentTitle ? `${documentTitle}, pages` : 'Document pages'}
+          className="pdf-container relative flex-1 min-w-0 overflow-auto focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-ring"
+          style={{ touchAction: 'pan-x pan-y' }}
         >
-          {Array.from({ length: numPages }, (_, index) => (
-            <div key={`page_${index + 1}`}>
-              <Page
-                pageNumber={index + 1}
-                scale={scale}
-                width={800}
-                renderTextLayer={true}
-                renderAnnotationLayer={true}
-                loading={
-                  <div className="flex items-center justify-center h-64">
-                    <div className="animate-pulse">Loading page {index + 1}...</div>
+          {loadProblem && <PDFLoadError problem={loadProblem} onRetry={retryLoad} />}
+          {passwordRequest && (
+            <PDFPasswordPrompt incorrect={passwordRequest.incorrect} onSubmit={submitPassword} onCancel={cancelPassword} />
+          )}
+          {!loadProblem && (
+            <Document
+              key={loadAttempt}
+              file={file}
+              options={pdfDocumentOptions}
+              onLoadSuccess={onDocumentLoadSuccess}
+              onLoadError={handleLoadError}
+              onPassword={handlePassword}
+              onLoadProgress={({ loaded, total }) => onLoadProgressRef.current?.({ loaded, total })}
+              loading={
+                <div className={cn('flex items-center justify-center h-64', passwordRequest && 'hidden')}>
+                  <div className="animate-pulse">Loading PDF...</div>
+                </div>
+              }
+              // Shown while the failure is being diagnosed
+              error={
+                <div className="flex items-center justify-center h-64 p-4 text-center text-gray-500" role="status">
+                  Failed to load PDF. Checking what went wrong…
+                </div>
+              }
+            >
+              {Array.from({ length: numPages }, (_, index) => {
+                const pageNumber = index + 1;
+                const size = pageSizes[index];
+
+                return (
+                  <div
+                    key={`page_${pageNumber}`}
+                    data-page-slot={pageNumber}
+                    className="pdf-page-slot"
+                    style={size && {
+                      width: size.width * scale * CSS_UNITS,
+                      height: size.height * scale * CSS_UNITS
+                    }}
+                    ref={slotRef(pageNumber)}
+                  >
+                    {visiblePages.has(pageNumber) && (
+                      <Page
+                        pageNumber={pageNumber}
+                        scale={scale * CSS_UNITS}
+                        renderTextLayer={true}
+                        renderAnnotationLayer={true}
+                        onRenderTextLayerSuccess={() => onTextLayerRendered(pageNumber)}
+                        onRenderError={handlePageError}
+                        onGetTextError={handlePageError}
+                        loading={
+                          <div className="flex items-center justify-center h-64">
+                            <div className="animate-pulse">Loading page {pageNumber}...</div>
+                          </div>
+                        }
+                      >
+                        {annotationsByPage.get(pageNumber)?.flatMap(annotation => annotation.rects.map((rect, rectIndex) => (
+                          <div
+                            key={`${annotation.id}-${rectIndex}`}
+                            className="annotation-highlight"
+                            style={{
+                              left: `${rect.left * 100}%`,
+                              top: `${rect.top * 100}%`,
+                              width: `${rect.width * 100}%`,
+                              height: `${rect.height * 100}%`,
+                              background: HIGHLIGHT_COLORS[annotation.color].fill
+                            }}
+                          />
+                        )))}
+                        {highlights[pageNumber]?.map((rect, rectIndex) => (
+                          <div
+                            key={rectIndex}
+                            className="highlighted-text"
+                            style={{
+                              left: `${rect.left * 100}%`,
+                              top: `${rect.top * 100}%`,
+                              width: `${rect.width * 100}%`,
+                              height: `${rect.height * 100}%`
+                            }}
+                          />
+                        ))}
+                      </Page>
+                    )}
                   </div>
-                }
-              />
-            </div>
-          ))}
-        </Document>
+                );
+              })}
+            </Document>
+          )}
+          {selection && (
+            <PDFSelectionMenu
+              left={selection.menuLeft}
+              top={selection.menuTop}
+              onHighlight={handleHighlightSelection}
+              actions={selectionActions}
+              onAction={onSelectionAction && handleSelectionAction}
+            />
+          )}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,98 @@
+// src/components/SplitHandle.tsx
+import { useEffect, useRef, type RefObject } from 'react';
+import { GripVertical, PanelLeftOpen, PanelRightOpen } from 'lucide-react';
+import { MAX_SPLIT, MIN_SPLIT, type CollapsedPane } from '@/hooks/useSplitLayout';
+
+interface SplitHandleProps {
+  // Share of the container's width left of the handle
+  ratio: number;
+  // The element holding both panes, which the ratio is measured against
+  containerRef: RefObject<HTMLElement | null>;
+  collapsed: CollapsedPane;
+  onRatioChange: (ratio: number) => void;
+  onReset: () => void;
+  onExpand: () => void;
+}
+
+// How far the arrow keys move the handle
+const KEY_STEP = 0.05;
+
+// Draggable divider between the document and the chat. While a pane is collapsed it
+// becomes a strip along that edge that brings the pane back.
+const SplitHandle = ({ ratio, containerRef, collapsed, onRatioChange, onReset, onExpand }: SplitHandleProps) => {
+  const frame = useRef(0);
+  useEffect(() => () => cancelAnimationFrame(frame.current), []);
+
+  if (collapsed) {
+    const label = collapsed === 'document' ? 'Show document' : 'Show chat';
+    const Icon = collapsed === 'document' ? PanelLeftOpen : PanelRightOpen;
+    return (
+      <button
+        onClick={onExpand}
+        className="shrink-0 w-8 flex justify-center pt-4 border-x border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-ring"
+        aria-label={label}
+        title={label}
+      >
+        <Icon className="h-5 w-5" />
+      </button>
+    );
+  }
+
+  // Pages re-render as the document pane resizes, so moves are applied once per frame
+  const moveTo = (clientX: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const box = container.getBoundingClientRect();
+    cancelAnimationFrame(frame.current);
+    frame.current = requestAnimationFrame(() => onRatioChange((clientX - box.left) / box.width));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    // Keeps the drag from selecting text on either side
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) moveTo(e.clientX);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const targets: Record<string, number> = {
+      ArrowLeft: ratio - KEY_STEP,
+      ArrowRight: ratio + KEY_STEP,
+      Home: MIN_SPLIT,
+      End: MAX_SPLIT
+    };
+    if (e.key in targets) {
+      e.preventDefault();
+      onRatioChange(targets[e.key]);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      onReset();
+    }
+  };
+
+  return (
+    <div
+      role="separator"
+      tabIndex={0}
+      aria-orientation="vertical"
+      aria-label="Resize document and chat"
+      aria-valuemin={Math.round(MIN_SPLIT * 100)}
+      aria-valuemax={Math.round(MAX_SPLIT * 100)}
+      aria-valuenow={Math.round(ratio * 100)}
+      title="Drag to resize, double-click to reset"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onDoubleClick={onReset}
+      onKeyDown={handleKeyDown}
+      className="group shrink-0 w-2 flex items-center justify-center cursor-col-resize touch-none bg-gray-100 dark:bg-gray-900 hover:bg-blue-100 dark:hover:bg-blue-900/40 focus-visible:outline-none focus-visible:bg-blue-100 dark:focus-visible:bg-blue-900/40"
+    >
+      <GripVertical className="h-4 w-4 shrink-0 text-gray-400 group-hover:text-blue-500" />
+    </div>
+  );
+};
+
+export default SplitHandle;
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from 'react';
+import { loadAnnotations, saveAnnotations, type Annotation } from '@/lib/annotations';
+
+interface AnnotationState {
+  documentId?: string;
+  annotations: Annotation[];
+}
+
+// Highlights and notes for one document, saved whenever they change
+export function useAnnotations(documentId?: string) {
+  const [state, setState] = useState<AnnotationState>(() => ({
+    documentId,
+    annotations: documentId ? loadAnnotations(documentId) : []
+  }));
+
+  // Switch to the other document's highlights as soon as it is shown
+  if (state.documentId !== documentId) {
+    setState({ documentId, annotations: documentId ? loadAnnotations(documentId) : [] });
+  }
+
+  // Set when the last change couldn't be saved
+  const [saveFailed, setSaveFailed] = useState(false);
+
+  useEffect(() => {
+    if (state.documentId) setSaveFailed(!saveAnnotations(state.documentId, state.annotations));
+  }, [state]);
+
+  const addAnnotation = useCallback((annotation: Omit<Annotation, 'id' | 'createdAt'>) => {
+    const created: Annotation = { ...annotation, id: Date.now().toString(), createdAt: new Date() };
+    setState(prev => ({ ...prev, annotations: [...prev.annotations, created] }));
+    return created.id;
+  }, []);
+
+  const updateAnnotation = useCallback((id: string, changes: Partial<Pick<Annotation, 'color' | 'note'>>) => {
+    setState(prev => ({
+      ...prev,
+      annotations: prev.annotations.map(annotation => (annotation.id === id ? { ...annotation, ...changes } : annotation))
+    }));
+  }, []);
+
+  const dismissSaveFailure = useCallback(() => setSaveFailed(false), []);
+
+  const removeAnnotation = useCallback((id: string) => {
+    setState(prev => ({ ...prev, annotations: prev.annotations.filter(annotation => annotation.id !== id) }));
+  }, []);
+
+  return {
+    annotations: state.annotations,
+    addAnnotation,
+    updateAnnotation,
+    removeAnnotation,
+    saveFailed,
+    dismissSaveFailure
+  };
+}
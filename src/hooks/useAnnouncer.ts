@@ -0,0 +1,19 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Text for a visually hidden aria-live region, so screen readers read out what
+// happened without the user having to find it on the page
+export function useAnnouncer() {
+  const [announcement, setAnnouncement] = useState('');
+  const frame = useRef(0);
+
+  const announce = useCallback((message: string) => {
+    // Clearing the region first makes screen readers repeat an identical message
+    cancelAnimationFrame(frame.current);
+    setAnnouncement('');
+    frame.current = requestAnimationFrame(() => setAnnouncement(message));
+  }, []);
+
+  useEffect(() => () => cancelAnimationFrame(frame.current), []);
+
+  return { announcement, announce };
+}
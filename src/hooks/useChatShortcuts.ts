@@ -0,0 +1,76 @@
+import { useEffect, useRef, type RefObject } from 'react';
+
+interface ChatShortcutsOptions {
+  inputRef: RefObject<HTMLInputElement | null>;
+  // The message list; citation markers in it carry a data-citation attribute
+  messagesRef: RefObject<HTMLElement | null>;
+}
+
+// Keyboard shortcuts that work from anywhere in the app:
+// - "/" focuses the question box, unless the user is already typing
+// - Alt+↓ / Alt+↑ move to the next or previous citation in the chat
+// - Escape inside a document goes back to the chat, to the citation last used if any
+export function useChatShortcuts({ inputRef, messagesRef }: ChatShortcutsOptions) {
+  const lastCitation = useRef<HTMLElement | null>(null);
+
+  // Remember the citation the user was on, to return to it from the document
+  useEffect(() => {
+    const messages = messagesRef.current;
+    if (!messages) return;
+
+    const onFocusIn = (e: FocusEvent) => {
+      const citation = (e.target as HTMLElement).closest<HTMLElement>('[data-citation]');
+      if (citation) lastCitation.current = citation;
+    };
+    messages.addEventListener('focusin', onFocusIn);
+    return () => messages.removeEventListener('focusin', onFocusIn);
+  }, [messagesRef]);
+
+  useEffect(() => {
+    const stepCitation = (direction: 1 | -1) => {
+      const citations = Array.from(messagesRef.current?.querySelectorAll<HTMLElement>('[data-citation]') ?? []);
+      if (citations.length === 0) return;
+
+      const current = citations.indexOf(document.activeElement as HTMLElement);
+      const from = current !== -1 ? current : citations.indexOf(lastCitation.current as HTMLElement);
+      // Without a current citation, start from the end nearest the direction of travel
+      const next = from === -1
+        ? (direction === 1 ? 0 : citations.length - 1)
+        : Math.min(Math.max(from + direction, 0), citations.length - 1);
+      citations[next].focus();
+      citations[next].scrollIntoView({ block: 'nearest' });
+    };
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented) return;
+      const target = e.target as HTMLElement;
+      const isTyping = !!target.closest('input, textarea, select, [contenteditable="true"]');
+
+      // Alt+↓ also opens <select> lists, so leave those alone
+      if (
+        e.altKey && !e.ctrlKey && !e.metaKey && (e.key === 'ArrowDown' || e.key === 'ArrowUp') &&
+        !target.closest('select')
+      ) {
+        e.preventDefault();
+        stepCitation(e.key === 'ArrowDown' ? 1 : -1);
+        return;
+      }
+
+      if (e.key === '/' && !isTyping && !e.altKey && !e.ctrlKey && !e.metaKey) {
+        e.preventDefault();
+        inputRef.current?.focus();
+        return;
+      }
+
+      if (e.key === 'Escape' && !isTyping && target.closest('.pdf-viewer')) {
+        e.preventDefault();
+        const citation = lastCitation.current;
+        if (citation?.isConnected) citation.focus();
+        else inputRef.current?.focus();
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [inputRef, messagesRef]);
+}
@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  createConversation,
+  loadConversations,
+  saveConversations,
+  type Conversation,
+  type ConversationState,
+  type Message
+} from '@/lib/chat';
+
+// Streaming updates a message many times a second, so changes are saved at most this often
+const SAVE_DELAY = 300;
+const DEFAULT_TITLE = 'New conversation';
+const TITLE_LENGTH = 40;
+
+const titleFromQuestion = (question: string) => {
+  const line = question.trim().split('\n')[0];
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1)}…` : line;
+};
+
+export function useConversations(documentId: string) {
+  const [state, setState] = useState<ConversationState>(loadConversations);
+
+  // Changes not saved yet; written out by the next scheduled save, or straight away
+  // when the page is closed or the hook unmounts
+  const pending = useRef<ConversationState | null>(null);
+  const saveTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  const flush = useCallback(() => {
+    clearTimeout(saveTimer.current);
+    saveTimer.current = undefined;
+    if (pending.current) saveConversations(pending.current);
+    pending.current = null;
+  }, []);
+
+  useEffect(() => {
+    pending.current = state;
+    saveTimer.current ??= setTimeout(flush, SAVE_DELAY);
+  }, [state, flush]);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', flush);
+    window.addEventListener('beforeunload', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      window.removeEventListener('beforeunload', flush);
+      flush();
+    };
+  }, [flush]);
+
+  const conversations = useMemo(
+    () => state.conversations
+      .filter(conversation => conversation.documentId === documentId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()),
+    [state.conversations, documentId]
+  );
+  const activeConversation: Conversation | null =
+    conversations.find(conversation => conversation.id === state.activeIds[documentId]) ?? conversations[0] ?? null;
+
+  const selectConversation = useCallback((id: string) => {
+    setState(prev => ({ ...prev, activeIds: { ...prev.activeIds, [documentId]: id } }));
+  }, [documentId]);
+
+  // Start a new thread for the current document and return its id
+  const newConversation = useCallback(() => {
+    const conversation = createConversation(documentId, DEFAULT_TITLE);
+    setState(prev => ({
+      conversations: [...prev.conversations, conversation],
+      activeIds: { ...prev.activeIds, [documentId]: conversation.id }
+    }));
+    return conversation.id;
+  }, [documentId]);
+
+  const renameConversation = useCallback((id: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+    setState(prev => ({
+      ...prev,
+      conversations: prev.conversations.map(c => (c.id === id ? { ...c, title: trimmed } : c))
+    }));
+  }, []);
+
+  const deleteConversation = useCallback((id: string) => {
+    setState(prev => ({
+      conversations: prev.conversations.filter(c => c.id !== id),
+      activeIds: Object.fromEntries(Object.entries(prev.activeIds).filter(([, activeId]) => activeId !== id))
+    }));
+  }, []);
+
+  // Drop every thread that belongs to a removed document
+  const deleteDocumentConversations = useCallback((removedDocumentId: string) => {
+    setState(prev => {
+      const { [removedDocumentId]: _removed, ...activeIds } = prev.activeIds;
+      return {
+        conversations: prev.conversations.filter(c => c.documentId !== removedDocumentId),
+        activeIds
+      };
+    });
+  }, []);
+
+  // Update a thread's messages; the first question becomes the title of an untitled thread
+  const updateMessages = useCallback((id: string, update: (messages: Message[]) => Message[]) => {
+    setState(prev => ({
+      ...prev,
+      conversations: prev.conversations.map(conversation => {
+        if (conversation.id !== id) return conversation;
+
+        const messages = update(conversation.messages);
+        const firstQuestion = messages.find(message => message.isUser);
+        const title = conversation.title === DEFAULT_TITLE && firstQuestion
+          ? titleFromQuestion(firstQuestion.content)
+          : conversation.title;
+        return { ...conversation, title, messages, updatedAt: new Date() };
+      })
+    }));
+  }, []);
+
+  return {
+    conversations,
+    activeConversation,
+    selectConversation,
+    newConversation,
+    renameConversation,
+    deleteConversation,
+    deleteDocumentConversations,
+    updateMessages
+  };
+}
@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { deleteDocument, listDocuments, saveDocument, updateDocument, type StoredDocument } from '@/lib/documentStore';
+
+export type LibraryDocument = {
+  id: string;
+  name: string;
+  title?: string;
+  source: string | File;
+  // Shipped with the app rather than uploaded, so it can't be removed
+  builtIn?: boolean;
+};
+
+// Sample PDF file - always available alongside uploaded documents
+const SAMPLE_DOCUMENT: LibraryDocument = {
+  id: 'sample',
+  name: 'report.pdf',
+  source: '/assets/report.pdf',
+  builtIn: true
+};
+
+const ACTIVE_DOCUMENT_KEY = 'activeDocument';
+
+const isPdf = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+const fromStored = ({ id, name, title, file }: StoredDocument): LibraryDocument => ({
+  id,
+  name,
+  title,
+  source: file instanceof File ? file : new File([file], name, { type: 'application/pdf' })
+});
+
+export function useDocumentLibrary() {
+  const [uploaded, setUploaded] = useState<LibraryDocument[]>([]);
+  const [sampleTitle, setSampleTitle] = useState<string>();
+  const [activeId, setActiveId] = useState<string>(() => localStorage.getItem(ACTIVE_DOCUMENT_KEY) ?? SAMPLE_DOCUMENT.id);
+  const [error, setError] = useState<string | null>(null);
+  // The remembered document may be one of the saved ones, so nothing should be opened before they are listed
+  const [loaded, setLoaded] = useState(false);
+
+  // Load previously uploaded documents, keeping any added in the meantime
+  useEffect(() => {
+    listDocuments()
+      .then(stored => setUploaded(prev => [
+        ...stored.map(fromStored).filter(doc => !prev.some(added => added.id === doc.id)),
+        ...prev
+      ]))
+      .catch(() => setError('Saved documents could not be loaded.'))
+      .finally(() => setLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(ACTIVE_DOCUMENT_KEY, activeId);
+  }, [activeId]);
+
+  const documents = useMemo(
+    () => [{ ...SAMPLE_DOCUMENT, title: sampleTitle }, ...uploaded],
+    [sampleTitle, uploaded]
+  );
+  // Fall back to the sample if the remembered document no longer exists
+  const activeDocument = documents.find(doc => doc.id === activeId) ?? documents[0];
+
+  const addFiles = useCallback(async (files: Iterable<File>) => {
+    const list = Array.from(files);
+    const pdfs = list.filter(isPdf);
+    setError(pdfs.length < list.length ? 'Only PDF files can be added.' : null);
+
+    try {
+      const saved = await Promise.all(pdfs.map(saveDocument));
+      if (saved.length === 0) return;
+      setUploaded(prev => [...prev, ...saved.map(fromStored)]);
+      setActiveId(saved[saved.length - 1].id);
+    } catch {
+      setError('The document could not be saved in this browser.');
+    }
+  }, []);
+
+  const removeDocument = useCallback(async (id: string) => {
+    if (id === SAMPLE_DOCUMENT.id) return;
+    setUploaded(prev => prev.filter(doc => doc.id !== id));
+    setActiveId(prev => (prev === id ? SAMPLE_DOCUMENT.id : prev));
+    await deleteDocument(id).catch(() => setError('The document could not be removed.'));
+  }, []);
+
+  // Remember the title from the PDF metadata once the viewer has read it
+  const setDocumentTitle = useCallback((id: string, title: string) => {
+    if (id === SAMPLE_DOCUMENT.id) {
+      setSampleTitle(title);
+      return;
+    }
+    setUploaded(prev => prev.map(doc => (doc.id === id ? { ...doc, title } : doc)));
+    updateDocument(id, { title }).catch(() => undefined);
+  }, []);
+
+  return {
+    loaded,
+    documents,
+    activeDocument,
+    selectDocument: setActiveId,
+    addFiles,
+    removeDocument,
+    setDocumentTitle,
+    error,
+    clearError: () => setError(null)
+  };
+}
@@ -0,0 +1,84 @@
+import { useMemo, useRef, useState, type RefObject } from 'react';
+import type { PDFViewerHandle } from '@/components/PDFViewer';
+import type { OutlineNode } from '@/lib/pdfOutline';
+
+// How a second viewer follows the first: not at all, page for page, or to the section with the same title
+export type ScrollLink = 'off' | 'page' | 'section';
+
+type Pane = 'primary' | 'secondary';
+
+interface LinkState {
+  // The pair of documents the link was set up for
+  key: string;
+  mode: ScrollLink;
+}
+
+// Page and section changes reported by a pane while it is being moved to follow the other
+// are its own scrolling catching up, not the reader, so they are ignored for this long
+const FOLLOW_SETTLE = 400;
+
+export function useLinkedScroll(
+  primaryRef: RefObject<PDFViewerHandle | null>,
+  secondaryRef: RefObject<PDFViewerHandle | null>,
+  documentIds: [string, string | undefined]
+) {
+  const key = documentIds.join('|');
+  const [link, setLink] = useState<LinkState>({ key, mode: 'off' });
+  const pages = useRef<Record<Pane, number>>({ primary: 1, secondary: 1 });
+  // Page difference between the panes when page linking started, kept while they scroll together
+  const pageOffset = useRef(0);
+  const following = useRef<{ pane: Pane; until: number } | null>(null);
+
+  // A different pair of documents starts unlinked
+  if (link.key !== key) {
+    setLink({ key, mode: 'off' });
+  }
+
+  const modeRef = useRef(link.mode);
+  modeRef.current = link.key === key ? link.mode : 'off';
+
+  const setMode = (mode: ScrollLink) => {
+    pageOffset.current = pages.current.secondary - pages.current.primary;
+    setLink({ key, mode });
+  };
+
+  const handlers = useMemo(() => {
+    const isFollowing = (pane: Pane) =>
+      following.current?.pane === pane && Date.now() < following.current.until;
+
+    const forPane = (pane: Pane) => {
+      const other: Pane = pane === 'primary' ? 'secondary' : 'primary';
+      const otherRef = pane === 'primary' ? secondaryRef : primaryRef;
+
+      // Move the other pane without it moving this one back in turn
+      const follow = (move: (viewer: PDFViewerHandle) => void) => {
+        const viewer = otherRef.current;
+        if (!viewer) return;
+        following.current = { pane: other, until: Date.now() + FOLLOW_SETTLE };
+        move(viewer);
+      };
+
+      return {
+        onPageChange: (page: number) => {
+          pages.current[pane] = page;
+          if (modeRef.current !== 'page' || isFollowing(pane)) return;
+          const offset = pane === 'primary' ? pageOffset.current : -pageOffset.current;
+          follow(viewer => viewer.scrollToPage(page + offset));
+        },
+        onSectionChange: (section: OutlineNode | null) => {
+          if (modeRef.current !== 'section' || !section || isFollowing(pane)) return;
+          follow(viewer => viewer.goToSection(section.title));
+        }
+      };
+    };
+
+    return { primary: forPane('primary'), secondary: forPane('secondary') };
+  }, [primaryRef, secondaryRef]);
+
+  return {
+    mode: modeRef.current,
+    setMode,
+    primary: handlers.primary,
+    secondary: handlers.secondary
+  };
+}
@@ -0,0 +1,294 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState, type RefObject } from 'react';
+
+export type ZoomMode = 'custom' | 'fit-width' | 'fit-page';
+
+// PDF units are points; pdf.js scale 1 renders one point per CSS pixel
+export const CSS_UNITS = 96 / 72;
+export const MIN_SCALE = 0.25;
+export const MAX_SCALE = 4;
+export const ZOOM_STEPS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4];
+
+// Room left around pages in the fit modes: side padding and the gap between pages
+const FIT_PADDING_X = 32;
+const FIT_PADDING_Y = 32;
+
+const STORAGE_PREFIX = 'pdfZoom:';
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+interface StoredZoom {
+  mode: ZoomMode;
+  scale: number;
+}
+
+interface ZoomState extends StoredZoom {
+  documentId?: string;
+}
+
+export interface ZoomAnchor {
+  clientX: number;
+  clientY: number;
+}
+
+// Where an anchor point sits within a page, so it can be put back after re-rendering
+interface PendingAnchor {
+  page: number;
+  fractionX: number;
+  fractionY: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+interface UsePDFZoomOptions {
+  containerRef: RefObject<HTMLDivElement | null>;
+  pageRefs: RefObject<Map<number, HTMLDivElement>>;
+  pageSizes: Size[];
+  // Remembers the zoom per document when set
+  documentId?: string;
+  // Anchor used by the zoom buttons, e.g. the current highlight; defaults to the viewport centre
+  getDefaultAnchor?: () => ZoomAnchor | null;
+}
+
+const clampScale = (scale: number) => Math.min(Math.max(scale, MIN_SCALE), MAX_SCALE);
+
+const loadZoom = (documentId?: string): StoredZoom => {
+  const fallback: StoredZoom = { mode: 'fit-width', scale: 1 };
+  if (!documentId) return fallback;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_PREFIX + documentId) ?? 'null') as StoredZoom | null;
+    if (!stored || typeof stored.scale !== 'number') return fallback;
+    return { mode: stored.mode, scale: clampScale(stored.scale) };
+  } catch {
+    return fallback;
+  }
+};
+
+// Fit modes size pages for the largest page so mixed page sizes don't make the zoom jump.
+// null when the mode is custom or there is nothing to fit yet.
+const fitScale = (mode: ZoomMode, pageSizes: Size[], container: Size) => {
+  if (mode === 'custom' || pageSizes.length === 0 || container.width === 0) return null;
+
+  const maxWidth = Math.max(...pageSizes.map(size => size.width)) * CSS_UNITS;
+  const maxHeight = Math.max(...pageSizes.map(size => size.height)) * CSS_UNITS;
+  const fitWidth = (container.width - FIT_PADDING_X) / maxWidth;
+  if (mode === 'fit-width') return clampScale(fitWidth);
+  return clampScale(Math.min(fitWidth, (container.height - FIT_PADDING_Y) / maxHeight));
+};
+
+export function usePDFZoom({ containerRef, pageRefs, pageSizes, documentId, getDefaultAnchor }: UsePDFZoomOptions) {
+  const [zoom, setZoom] = useState<ZoomState>(() => ({ documentId, ...loadZoom(documentId) }));
+  const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
+  const pendingAnchor = useRef<PendingAnchor | null>(null);
+
+  // Switch to the remembered zoom as soon as another document is shown
+  if (zoom.documentId !== documentId) {
+    setZoom({ documentId, ...loadZoom(documentId) });
+  }
+
+  useEffect(() => {
+    const { documentId: id, mode, scale } = zoom;
+    if (!id) return;
+    try {
+      localStorage.setItem(STORAGE_PREFIX + id, JSON.stringify({ mode, scale }));
+    } catch {
+      // Storage can be full or disabled; the zoom just isn't remembered
+    }
+  }, [zoom]);
+
+  const scale = useMemo(
+    () => fitScale(zoom.mode, pageSizes, containerSize) ?? zoom.scale,
+    [zoom, pageSizes, containerSize]
+  );
+
+  const scaleRef = useRef(scale);
+  scaleRef.current = scale;
+  const modeRef = useRef(zoom.mode);
+  modeRef.current = zoom.mode;
+  const pageSizesRef = useRef(pageSizes);
+  pageSizesRef.current = pageSizes;
+
+  // Record which point of which page is under the anchor before the scale changes
+  const captureAnchor = useCallback((anchor?: ZoomAnchor | null) => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const box = container.getBoundingClientRect();
+    // Nothing is laid out while the viewer is hidden
+    if (box.width === 0 || box.height === 0) return;
+    const point = anchor ?? getDefaultAnchor?.() ?? {
+      clientX: box.left + box.width / 2,
+      clientY: box.top + box.height / 2
+    };
+    const offsetX = point.clientX - box.left;
+    const offsetY = point.clientY - box.top;
+    const docY = container.scrollTop + offsetY;
+    const docX = container.scrollLeft + offsetX;
+
+    let target: { page: number; slot: HTMLDivElement } | null = null;
+    pageRefs.current?.forEach((slot, page) => {
+      if (slot.offsetTop <= docY && (!target || page > target.page)) target = { page, slot };
+    });
+    if (!target) return;
+
+    const { page, slot } = target as { page: number; slot: HTMLDivElement };
+    pendingAnchor.current = {
+      page,
+      fractionX: (docX - slot.offsetLeft) / slot.offsetWidth,
+      fractionY: Math.min((docY - slot.offsetTop) / slot.offsetHeight, 1),
+      offsetX,
+      offsetY
+    };
+  }, [containerRef, pageRefs, getDefaultAnchor]);
+
+  // Put the anchored point back under the cursor once pages have their new size
+  useLayoutEffect(() => {
+    const anchor = pendingAnchor.current;
+    const container = containerRef.current;
+    pendingAnchor.current = null;
+    if (!anchor || !container) return;
+
+    const slot = pageRefs.current?.get(anchor.page);
+    if (!slot) return;
+    container.scrollTop = slot.offsetTop + anchor.fractionY * slot.offsetHeight - anchor.offsetY;
+    container.scrollLeft = slot.offsetLeft + anchor.fractionX * slot.offsetWidth - anchor.offsetX;
+  }, [scale, containerRef, pageRefs]);
+
+  // Follow the container size for the fit modes
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    // Hiding the viewer (display: none) loses its scroll position, so the last one seen
+    // while it was shown is put back when it reappears
+    let hidden = false;
+    let lastScroll: { top: number; left: number } | null = null;
+    const onScroll = () => {
+      if (!hidden && container.clientHeight > 0) lastScroll = { top: container.scrollTop, left: container.scrollLeft };
+    };
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      // A hidden viewer measures 0×0; keep the last size so the pages keep their scale
+      if (width === 0 || height === 0) {
+        hidden = true;
+        return;
+      }
+      if (hidden) {
+        hidden = false;
+        if (lastScroll) {
+          container.scrollTop = lastScroll.top;
+          container.scrollLeft = lastScroll.left;
+        }
+      }
+
+      // Keep the top of the view in place when a fit mode rescales the pages. Only then:
+      // an anchor left over from a resize that kept the scale would be applied later,
+      // at some unrelated scale change.
+      const nextScale = fitScale(modeRef.current, pageSizesRef.current, { width, height });
+      if (nextScale !== null && Math.abs(nextScale - scaleRef.current) >= 0.001) {
+        const box = container.getBoundingClientRect();
+        captureAnchor({ clientX: box.left, clientY: box.top });
+      }
+      setContainerSize(prev => (prev.width === width && prev.height === height ? prev : { width, height }));
+    });
+    observer.observe(container);
+    container.addEventListener('scroll', onScroll, { passive: true });
+    return () => {
+      observer.disconnect();
+      container.removeEventListener('scroll', onScroll);
+    };
+  }, [containerRef, captureAnchor]);
+
+  const zoomTo = useCallback((nextScale: number, anchor?: ZoomAnchor | null) => {
+    const clamped = clampScale(nextScale);
+    if (Math.abs(clamped - scaleRef.current) < 0.001) return;
+    captureAnchor(anchor);
+    setZoom(prev => ({ ...prev, mode: 'custom', scale: clamped }));
+  }, [captureAnchor]);
+
+  const setZoomMode = useCallback((mode: ZoomMode) => {
+    captureAnchor();
+    setZoom(prev => ({ ...prev, mode, scale: mode === 'custom' ? prev.scale : scaleRef.current }));
+  }, [captureAnchor]);
+
+  const zoomIn = useCallback(() => {
+    zoomTo(ZOOM_STEPS.find(step => step > scaleRef.current + 0.001) ?? MAX_SCALE);
+  }, [zoomTo]);
+
+  const zoomOut = useCallback(() => {
+    zoomTo([...ZOOM_STEPS].reverse().find(step => step < scaleRef.current - 0.001) ?? MIN_SCALE);
+  }, [zoomTo]);
+
+  // Ctrl+wheel (which is also what trackpad pinches report) and two-finger touch pinch
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let frame = 0;
+    // Wheel events arrive faster than pages render, so they accumulate until the next frame
+    let wheelScale: number | null = null;
+    let pinch: { distance: number; scale: number } | null = null;
+
+    const schedule = (nextScale: number, anchor: ZoomAnchor) => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        wheelScale = null;
+        zoomTo(nextScale, anchor);
+      });
+    };
+
+    const onWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      const delta = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 16 : e.deltaY;
+      wheelScale = clampScale((wheelScale ?? scaleRef.current) * Math.exp(-delta * 0.002));
+      schedule(wheelScale, { clientX: e.clientX, clientY: e.clientY });
+    };
+
+    const touchDistance = (touches: TouchList) =>
+      Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+
+    const onTouchStart = (e: TouchEvent) => {
+      if (e.touches.length === 2) pinch = { distance: touchDistance(e.touches), scale: scaleRef.current };
+    };
+
+    const onTouchMove = (e: TouchEvent) => {
+      if (!pinch || e.touches.length !== 2) return;
+      e.preventDefault();
+      schedule(pinch.scale * touchDistance(e.touches) / pinch.distance, {
+        clientX: (e.touches[0].clientX + e.touches[1].clientX) / 2,
+        clientY: (e.touches[0].clientY + e.touches[1].clientY) / 2
+      });
+    };
+
+    const onTouchEnd = (e: TouchEvent) => {
+      if (e.touches.length < 2) pinch = null;
+    };
+
+    container.addEventListener('wheel', onWheel, { passive: false });
+    container.addEventListener('touchstart', onTouchStart, { passive: true });
+    container.addEventListener('touchmove', onTouchMove, { passive: false });
+    container.addEventListener('touchend', onTouchEnd);
+    container.addEventListener('touchcancel', onTouchEnd);
+    return () => {
+      cancelAnimationFrame(frame);
+      container.removeEventListener('wheel', onWheel);
+      container.removeEventListener('touchstart', onTouchStart);
+      container.removeEventListener('touchmove', onTouchMove);
+      container.removeEventListener('touchend', onTouchEnd);
+      container.removeEventListener('touchcancel', onTouchEnd);
+    };
+  }, [containerRef, zoomTo]);
+
+  return {
+    scale,
+    zoomMode: zoom.mode,
+    setZoomMode,
+    zoomTo,
+    zoomIn,
+    zoomOut
+  };
+}
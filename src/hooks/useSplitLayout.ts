@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useState } from 'react';
+
+// A pane folded away to give the other the full width
+export type CollapsedPane = 'document' | 'chat' | null;
+
+// Share of the width, next to the library, given to the document
+export const DEFAULT_SPLIT = 2 / 3;
+export const MIN_SPLIT = 0.25;
+export const MAX_SPLIT = 0.8;
+
+const STORAGE_KEY = 'splitLayout';
+
+interface SplitLayout {
+  ratio: number;
+  collapsed: CollapsedPane;
+}
+
+const clampSplit = (ratio: number) => Math.min(Math.max(ratio, MIN_SPLIT), MAX_SPLIT);
+
+const loadLayout = (): SplitLayout => {
+  const fallback: SplitLayout = { ratio: DEFAULT_SPLIT, collapsed: null };
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as SplitLayout | null;
+    if (!stored || typeof stored.ratio !== 'number') return fallback;
+    const collapsed = stored.collapsed === 'document' || stored.collapsed === 'chat' ? stored.collapsed : null;
+    return { ratio: clampSplit(stored.ratio), collapsed };
+  } catch {
+    return fallback;
+  }
+};
+
+// Document/chat split, remembered across visits
+export function useSplitLayout() {
+  const [layout, setLayout] = useState<SplitLayout>(loadLayout);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(layout));
+    } catch {
+      // Storage can be full or disabled; the layout just isn't remembered
+    }
+  }, [layout]);
+
+  const setRatio = useCallback((ratio: number) => {
+    setLayout(prev => ({ ...prev, ratio: clampSplit(ratio) }));
+  }, []);
+
+  const resetRatio = useCallback(() => setRatio(DEFAULT_SPLIT), [setRatio]);
+
+  const setCollapsed = useCallback((collapsed: CollapsedPane) => {
+    setLayout(prev => ({ ...prev, collapsed }));
+  }, []);
+
+  return {
+    ratio: layout.ratio,
+    collapsed: layout.collapsed,
+    setRatio,
+    resetRatio,
+    setCollapsed
+  };
+}
@@ -0,0 +1,110 @@
+import type { HighlightRect } from './textLayer';
+
+// User highlights saved per document in localStorage. Rectangles are fractions of
+// the page size, so they can be redrawn at any zoom level.
+
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink' | 'orange';
+
+export const HIGHLIGHT_COLORS: Record<HighlightColor, { label: string; fill: string }> = {
+  yellow: { label: 'Yellow', fill: 'rgba(250, 204, 21, 0.45)' },
+  green: { label: 'Green', fill: 'rgba(74, 222, 128, 0.45)' },
+  blue: { label: 'Blue', fill: 'rgba(96, 165, 250, 0.45)' },
+  pink: { label: 'Pink', fill: 'rgba(244, 114, 182, 0.45)' },
+  orange: { label: 'Orange', fill: 'rgba(251, 146, 60, 0.45)' }
+};
+
+export type Annotation = {
+  id: string;
+  page: number;
+  text: string;
+  color: HighlightColor;
+  note?: string;
+  rects: HighlightRect[];
+  createdAt: Date;
+};
+
+const STORAGE_PREFIX = 'annotations:';
+const SCHEMA_VERSION = 1;
+
+type StoredAnnotations = {
+  version: number;
+  annotations: Annotation[];
+};
+
+const reviveDate = (value: unknown) => {
+  const date = new Date(typeof value === 'string' || typeof value === 'number' ? value : NaN);
+  return Number.isNaN(date.getTime()) ? new Date() : date;
+};
+
+export function loadAnnotations(documentId: string): Annotation[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_PREFIX + documentId) ?? 'null') as StoredAnnotations | null;
+    if (!stored || stored.version !== SCHEMA_VERSION || !Array.isArray(stored.annotations)) return [];
+    return stored.annotations.map(annotation => ({ ...annotation, createdAt: reviveDate(annotation.createdAt) }));
+  } catch {
+    return [];
+  }
+}
+
+// False when storage is full or disabled, so the highlights only live in memory
+export function saveAnnotations(documentId: string, annotations: Annotation[]): boolean {
+  try {
+    if (annotations.length === 0) {
+      localStorage.removeItem(STORAGE_PREFIX + documentId);
+    } else {
+      const stored: StoredAnnotations = { version: SCHEMA_VERSION, annotations };
+      localStorage.setItem(STORAGE_PREFIX + documentId, JSON.stringify(stored));
+    }
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function deleteDocumentAnnotations(documentId: string) {
+  localStorage.removeItem(STORAGE_PREFIX + documentId);
+}
+
+// Joins the per-span rectangles of a selection into one rectangle per line
+export function mergeRects(rects: HighlightRect[]): HighlightRect[] {
+  const sorted = [...rects].sort((a, b) => a.top - b.top || a.left - b.left);
+  const merged: HighlightRect[] = [];
+
+  for (const rect of sorted) {
+    const last = merged[merged.length - 1];
+    const overlap = last
+      ? Math.min(last.top + last.height, rect.top + rect.height) - Math.max(last.top, rect.top)
+      : 0;
+    if (last && overlap > Math.min(last.height, rect.height) / 2 && rect.left <= last.left + last.width + 0.01) {
+      const top = Math.min(last.top, rect.top);
+      const bottom = Math.max(last.top + last.height, rect.top + rect.height);
+      const right = Math.max(last.left + last.width, rect.left + rect.width);
+      last.left = Math.min(last.left, rect.left);
+      last.top = top;
+      last.width = right - last.left;
+      last.height = bottom - top;
+    } else {
+      merged.push({ ...rect });
+    }
+  }
+  return merged;
+}
+
+// Reading order: by page, then from the top of the page
+export const sortAnnotations = (annotations: Annotation[]) =>
+  [...annotations].sort((a, b) => a.page - b.page || (a.rects[0]?.top ?? 0) - (b.rects[0]?.top ?? 0));
+
+export function annotationsToMarkdown(annotations: Annotation[], title: string): string {
+  const lines = [`# Highlights – ${title}`, ''];
+  for (const annotation of sortAnnotations(annotations)) {
+    lines.push(`> ${annotation.text.replace(/\s+/g, ' ').trim()}`, '');
+    lines.push(`— Page ${annotation.page} · ${HIGHLIGHT_COLORS[annotation.color].label}`);
+    if (annotation.note) lines.push('', annotation.note);
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+export function annotationsToJson(annotations: Annotation[], documentId: string): string {
+  return JSON.stringify({ documentId, annotations: sortAnnotations(annotations) }, null, 2);
+}
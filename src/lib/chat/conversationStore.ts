@@ -0,0 +1,110 @@
+import { createId } from '../id';
+import type { Message } from './types';
+
+// Chat threads are saved to localStorage under a versioned schema. When a field
+// is added to Message or Conversation, bump SCHEMA_VERSION and register a
+// migration that upgrades data saved by the previous version.
+
+export type Conversation = {
+  id: string;
+  documentId: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messages: Message[];
+};
+
+export type ConversationState = {
+  conversations: Conversation[];
+  // Conversation last opened for each document
+  activeIds: Record<string, string>;
+};
+
+const STORAGE_KEY = 'conversations';
+export const SCHEMA_VERSION = 1;
+
+// Persisted data is JSON, so it's only trusted after it has been migrated
+type StoredState = {
+  version: number;
+  [key: string]: unknown;
+};
+
+type Migration = (state: StoredState) => StoredState;
+
+// Keyed by the version a migration upgrades from
+const migrations: Record<number, Migration> = {};
+
+const emptyState = (): ConversationState => ({ conversations: [], activeIds: {} });
+
+// Set when the saved threads come from a newer version of the app (or one with no
+// migration path). They are left as they are rather than overwritten with what this
+// version can show.
+let keepStoredData = false;
+
+const migrate = (stored: StoredState): StoredState | null => {
+  let state = stored;
+  while (state.version < SCHEMA_VERSION) {
+    const migration = migrations[state.version];
+    if (!migration) return null;
+    state = { ...migration(state), version: state.version + 1 };
+  }
+  return state.version === SCHEMA_VERSION ? state : null;
+};
+
+const reviveDate = (value: unknown) => {
+  const date = new Date(typeof value === 'string' || typeof value === 'number' ? value : NaN);
+  return Number.isNaN(date.getTime()) ? new Date() : date;
+};
+
+// Turn ISO date strings back into Dates
+const reviveConversation = (raw: Conversation): Conversation => ({
+  ...raw,
+  createdAt: reviveDate(raw.createdAt),
+  updatedAt: reviveDate(raw.updatedAt),
+  messages: (raw.messages ?? []).map(message => ({
+    ...message,
+    timestamp: reviveDate(message.timestamp)
+  }))
+});
+
+export function loadConversations(): ConversationState {
+  try {
+    const json = localStorage.getItem(STORAGE_KEY);
+    if (!json) return emptyState();
+
+    const state = migrate(JSON.parse(json) as StoredState);
+    if (!state) {
+      keepStoredData = true;
+      return emptyState();
+    }
+
+    const { conversations, activeIds } = state as StoredState & ConversationState;
+    return {
+      conversations: Array.isArray(conversations) ? conversations.map(reviveConversation) : [],
+      activeIds: activeIds ?? {}
+    };
+  } catch {
+    return emptyState();
+  }
+}
+
+export function saveConversations(state: ConversationState): void {
+  if (keepStoredData) return;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: SCHEMA_VERSION, ...state }));
+  } catch {
+    // Storage can be full or disabled; the conversation still lives in memory
+  }
+}
+
+export function createConversation(documentId: string, title = 'New conversation'): Conversation {
+  const now = new Date();
+  return {
+    id: createId(),
+    documentId,
+    title,
+    createdAt: now,
+    updatedAt: now,
+    messages: []
+  };
+}
@@ -0,0 +1,34 @@
+import type { Message } from './types';
+
+// Sample responses with citations based on Maersk Q2 2025 Interim Report
+export const sampleResponses: Message[] = [
+  {
+    id: '1',
+    content: 'The report shows that EBITDA improvements were driven by operational performance, including volume growth, cost control, and margin improvements across Ocean, Logistics & Services, and Terminals segments [1][2].',
+    isUser: false,
+    timestamp: new Date(),
+    citations: [
+      { id: 1, text: 'Maersk’s results continued to improve year-on-year', page: 3 },
+      { id: 2, text: 'EBITDA increased to USD 2.3 bn (USD 2.1 bn)', page: 5 }
+    ]
+  },
+  {
+    id: '2',
+    content: 'The gain on sale of non-current assets was USD 25 million in Q2 2025, significantly lower than USD 208 million in Q2 2024, but these amounts are reported separately under EBIT and not included in EBITDA [3].',
+    isUser: false,
+    timestamp: new Date(),
+    citations: [
+      { id: 3, text: 'Gain on sale of non-current assets', page: 15 }
+    ]
+  },
+  {
+    id: '3',
+    content: 'EBITDA for Q2 2025 increased to USD 2.3 billion from USD 2.1 billion in the prior year, with Ocean, Logistics & Services, and Terminals all contributing to the growth [1][2].',
+    isUser: false,
+    timestamp: new Date(),
+    citations: [
+      { id: 1, text: 'Maersk’s results continued to improve year-on-year', page: 3 },
+      { id: 2, text: 'EBITDA increased to USD 2.3 bn (USD 2.1 bn)', page: 5 }
+    ]
+  }
+];
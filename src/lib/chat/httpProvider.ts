@@ -0,0 +1,110 @@
+import { readServerSentEvents } from './sse';
+import type { ChatProvider, ChatRequest, ChatStreamEvent, Citation } from './types';
+
+// A passage of the document sent along so the service can ground and cite its answer
+export interface ContextPassage {
+  // Set when comparing, to tell the two documents' passages apart
+  documentId?: string;
+  page: number;
+  text: string;
+}
+
+interface HttpChatProviderOptions {
+  endpoint: string;
+  headers?: Record<string, string>;
+  retrieve?: (request: ChatRequest) => Promise<ContextPassage[]>;
+}
+
+// Shape of the JSON body returned by the answer service
+interface HttpChatResponse {
+  id?: string;
+  content: string;
+  citations?: Citation[];
+}
+
+const toRequestBody = (
+  { question, document, compareDocument, history, selection }: ChatRequest,
+  stream: boolean,
+  passages?: ContextPassage[]
+) => JSON.stringify({
+  question,
+  document,
+  ...(compareDocument && { compareDocument }),
+  history: history.map(({ content, isUser }) => ({
+    role: isUser ? 'user' : 'assistant',
+    content
+  })),
+  ...(selection && { selection }),
+  ...(passages && { passages }),
+  stream
+});
+
+const parseEventData = <T>(data: string): T => {
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    throw new Error(`Malformed event from chat stream: ${data}`);
+  }
+};
+
+// Posts the question and document context as JSON and maps the reply onto a Message.
+// Streaming uses the same endpoint with an SSE response made of `token`,
+// `citation` and `done` events, each carrying a JSON payload. With `retrieve`, the
+// matching document passages are included in the body as `passages`. A compared
+// document is sent as `compareDocument`, and citations into it carry its `documentId`.
+export function createHttpChatProvider({ endpoint, headers = {}, retrieve }: HttpChatProviderOptions): ChatProvider {
+  const post = async (request: ChatRequest, stream: boolean, signal?: AbortSignal) => {
+    const passages = retrieve ? await retrieve(request) : undefined;
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: stream ? 'text/event-stream' : 'application/json',
+        ...headers
+      },
+      body: toRequestBody(request, stream, passages),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Chat request failed: ${response.status} ${response.statusText}`);
+    }
+    return response;
+  };
+
+  return {
+    sendMessage: async (request, { signal } = {}) => {
+      const response = await post(request, false, signal);
+      const data = (await response.json()) as HttpChatResponse;
+      if (typeof data?.content !== 'string') {
+        throw new Error('Chat response is missing "content".');
+      }
+
+      return {
+        id: data.id ?? Date.now().toString(),
+        content: data.content,
+        isUser: false,
+        timestamp: new Date(),
+        citations: Array.isArray(data.citations) ? data.citations : []
+      };
+    },
+
+    async *streamMessage(request, { signal } = {}): AsyncGenerator<ChatStreamEvent> {
+      const response = await post(request, true, signal);
+      if (!response.body) {
+        throw new Error('Chat response has no body to stream.');
+      }
+
+      for await (const { event, data } of readServerSentEvents(response.body)) {
+        if (event === 'token') {
+          yield { type: 'token', text: parseEventData<{ text: string }>(data).text };
+        } else if (event === 'citation') {
+          yield { type: 'citation', citation: parseEventData<Citation>(data) };
+        } else if (event === 'done') {
+          yield { type: 'done', id: data ? parseEventData<{ id?: string }>(data).id : undefined };
+          return;
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,74 @@
+import type { DocumentIndex } from '../retrieval';
+import { createHttpChatProvider } from './httpProvider';
+import { createLocalChatProvider, selectPassages } from './localProvider';
+import { createMockChatProvider } from './mockProvider';
+import { retrievalQuery } from './selectionActions';
+import type { ChatDocumentContext, ChatProvider, ChatRequest, ChatRequestOptions, ChatStreamEvent } from './types';
+
+export * from './types';
+export { createHttpChatProvider, type ContextPassage } from './httpProvider';
+export { createLocalChatProvider } from './localProvider';
+export { createMockChatProvider } from './mockProvider';
+export { verifyCitations } from './verifyCitations';
+export { SELECTION_ACTIONS, type SelectionAction } from './selectionActions';
+export { sampleResponses } from './fixtures';
+export { readServerSentEvents } from './sse';
+export {
+  createConversation,
+  loadConversations,
+  saveConversations,
+  SCHEMA_VERSION,
+  type Conversation,
+  type ConversationState
+} from './conversationStore';
+
+interface ChatProviderOptions {
+  // Text index of the document being asked about, used for offline answers and grounding
+  getDocumentIndex?: (document: ChatDocumentContext) => Promise<DocumentIndex>;
+}
+
+// Uses the answer service when VITE_CHAT_API_URL is set, otherwise answers offline
+// from the document's own text. VITE_CHAT_PROVIDER=mock replays the fixtures instead.
+export function createChatProvider({ getDocumentIndex }: ChatProviderOptions = {}): ChatProvider {
+  const endpoint = import.meta.env.VITE_CHAT_API_URL;
+  if (endpoint) {
+    return createHttpChatProvider({
+      endpoint,
+      retrieve: getDocumentIndex && (async ({ question, document, compareDocument, selection }) => {
+        const query = retrievalQuery(question, selection);
+        const documents = compareDocument ? [document, compareDocument] : [document];
+        const passages = await Promise.all(documents.map(async doc =>
+          selectPassages(await getDocumentIndex(doc), query, 5).map(({ page, text }) => ({
+            ...(compareDocument && { documentId: doc.id }),
+            page,
+            text
+          }))
+        ));
+        return passages.flat();
+      })
+    });
+  }
+  if (getDocumentIndex && import.meta.env.VITE_CHAT_PROVIDER !== 'mock') {
+    return createLocalChatProvider({ getDocumentIndex });
+  }
+  return createMockChatProvider();
+}
+
+// Streams a reply, falling back to a single-shot request for providers that can't stream
+export async function* streamChatMessage(
+  provider: ChatProvider,
+  request: ChatRequest,
+  options: ChatRequestOptions = {}
+): AsyncGenerator<ChatStreamEvent> {
+  if (provider.streamMessage) {
+    yield* provider.streamMessage(request, options);
+    return;
+  }
+
+  const message = await provider.sendMessage(request, options);
+  yield { type: 'token', text: message.content };
+  for (const citation of message.citations ?? []) {
+    yield { type: 'citation', citation };
+  }
+  yield { type: 'done', id: message.id };
+}
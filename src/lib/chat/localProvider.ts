@@ -0,0 +1,114 @@
+import type { DocumentIndex, RankedPassage } from '../retrieval';
+import { normalizeQuery } from '../textMatch';
+import { retrievalQuery } from './selectionActions';
+import type { ChatDocumentContext, ChatProvider, Citation, SelectionContext } from './types';
+
+interface LocalChatProviderOptions {
+  getDocumentIndex: (document: ChatDocumentContext) => Promise<DocumentIndex>;
+  // Most passages quoted in one answer
+  maxPassages?: number;
+}
+
+// Passages scoring well below the best match are more noise than answer
+const RELATIVE_SCORE_CUTOFF = 0.35;
+
+const NO_MATCH_REPLY = "I couldn't find anything in this document that answers that. Try rephrasing, or use terms that appear in the text.";
+const NO_MATCH_COMPARE_REPLY = "I couldn't find anything in either document that answers that. Try rephrasing, or use terms that appear in the text.";
+
+export function selectPassages(index: DocumentIndex, question: string, maxPassages: number): RankedPassage[] {
+  const ranked = index.search(question, maxPassages);
+  const best = ranked[0]?.score ?? 0;
+  return ranked.filter(passage => passage.score >= best * RELATIVE_SCORE_CUTOFF);
+}
+
+// Passages that are (part of) the selection itself add nothing to an answer about it
+const overlapsSelection = (passage: RankedPassage, selection: SelectionContext) => {
+  if (passage.page !== selection.page) return false;
+  const selected = normalizeQuery(selection.text);
+  const text = normalizeQuery(passage.text);
+  return selected.includes(text) || text.includes(selected);
+};
+
+// A quote from one of the documents, cited in the order it appears in the answer
+type Quote = { text: string; page: number; documentId?: string };
+
+const documentName = (document: ChatDocumentContext) =>
+  document.title ?? document.source.split('/').pop() ?? document.source;
+
+// Answers without a server by quoting the best matching passages of the document.
+// Every quote is cited with the exact extracted text and its page. When a second
+// document is being compared, both are searched and each citation names its document.
+export function createLocalChatProvider({ getDocumentIndex, maxPassages = 3 }: LocalChatProviderOptions): ChatProvider {
+  return {
+    sendMessage: async ({ question, document, compareDocument, selection }, { signal } = {}) => {
+      const documents = compareDocument ? [document, compareDocument] : [document];
+      const indexes = await Promise.all(documents.map(doc => getDocumentIndex(doc)));
+      signal?.throwIfAborted();
+
+      const query = retrievalQuery(question, selection);
+      const selectedIn = selection?.documentId ?? document.id;
+      // Citations only name their document when there is more than one to choose from
+      const tag = (documentId: string) => (compareDocument ? { documentId } : {});
+      const found: Quote[][] = indexes.map((index, i) => {
+        const { id } = documents[i];
+        return selectPassages(index, query, maxPassages + (selection ? 1 : 0))
+          .filter(passage => !selection || id !== selectedIn || !overlapsSelection(passage, selection))
+          .slice(0, maxPassages)
+          .map(({ text, page }) => ({ text, page, ...tag(id) }));
+      });
+
+      const citations: Citation[] = [];
+      const cite = (quotes: Quote[]) => quotes.map(quote => {
+        citations.push({ id: citations.length + 1, ...quote });
+        return `"${quote.text}" [${citations.length}]`;
+      });
+      let paragraphs: string[];
+
+      // The selection itself is always the first citation
+      if (selection) cite([{ text: selection.text, page: selection.page, ...tag(selectedIn) }]);
+
+      if (compareDocument) {
+        // Quote each document under its own name so the two can be read side by side
+        const intro = selection
+          ? [
+            `You selected this passage in ${documentName(selectedIn === document.id ? document : compareDocument)}, page ${selection.page} [1].`,
+            'Related passages in each document:'
+          ]
+          : ['Here are the passages from each document that best match your question:'];
+        paragraphs = found.every(quotes => quotes.length === 0) && !selection
+          ? [NO_MATCH_COMPARE_REPLY]
+          : [
+            ...intro,
+            ...documents.flatMap((doc, i) => [
+              `**${documentName(doc)}**`,
+              ...(found[i].length > 0 ? cite(found[i]) : ['Nothing in this document matches.'])
+            ])
+          ];
+      } else if (selection) {
+        // After the selection, what else the document says about it
+        paragraphs = [
+          `You selected this passage on page ${selection.page} [1].`,
+          found[0].length === 0
+            ? 'I couldn\'t find other passages in the document that relate to it.'
+            : 'Related passages elsewhere in the document:',
+          ...cite(found[0])
+        ];
+      } else {
+        paragraphs = found[0].length === 0
+          ? [NO_MATCH_REPLY]
+          : [
+            `Here ${found[0].length === 1 ? 'is the passage' : 'are the passages'} from the document that best match your question:`,
+            ...cite(found[0])
+          ];
+      }
+
+      return {
+        id: Date.now().toString(),
+        content: paragraphs.join('\n\n'),
+        isUser: false,
+        timestamp: new Date(),
+        citations
+      };
+    }
+  };
+}
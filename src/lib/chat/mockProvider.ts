@@ -0,0 +1,79 @@
+import { sampleResponses } from './fixtures';
+import type { ChatProvider, ChatStreamEvent, Message } from './types';
+
+interface MockChatProviderOptions {
+  responses?: Message[];
+  delay?: number;
+  tokenDelay?: number;
+}
+
+const abortError = () => new DOMException('The request was aborted.', 'AbortError');
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortError());
+    return;
+  }
+
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Answers from fixture data in order, looping once every response has been used
+export function createMockChatProvider({
+  responses = sampleResponses,
+  delay = 1000,
+  tokenDelay = 40
+}: MockChatProviderOptions = {}): ChatProvider {
+  let next = 0;
+
+  const takeFixture = () => {
+    const fixture = responses[next % responses.length];
+    next += 1;
+    return fixture;
+  };
+
+  return {
+    sendMessage: async (_request, { signal } = {}) => {
+      await wait(delay, signal);
+      const fixture = takeFixture();
+      return {
+        ...fixture,
+        id: `${Date.now()}-${next}`,
+        isUser: false,
+        timestamp: new Date()
+      };
+    },
+
+    // Emits the fixture word by word, sending each citation right after its marker
+    async *streamMessage(_request, { signal } = {}): AsyncGenerator<ChatStreamEvent> {
+      await wait(delay / 2, signal);
+      const fixture = takeFixture();
+      const pending = [...(fixture.citations ?? [])];
+
+      for (const token of fixture.content.match(/\S+\s*/g) ?? []) {
+        await wait(tokenDelay, signal);
+        yield { type: 'token', text: token };
+
+        for (const [, id] of token.matchAll(/\[(\d+)\]/g)) {
+          const index = pending.findIndex(c => c.id === Number(id));
+          if (index !== -1) {
+            yield { type: 'citation', citation: pending.splice(index, 1)[0] };
+          }
+        }
+      }
+
+      for (const citation of pending) {
+        yield { type: 'citation', citation };
+      }
+      yield { type: 'done', id: `${Date.now()}-${next}` };
+    }
+  };
+}
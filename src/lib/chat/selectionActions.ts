@@ -0,0 +1,14 @@
+import type { SelectionContext } from './types';
+
+export type SelectionAction = 'explain' | 'summarise' | 'compare';
+
+// Questions offered for text selected in the document
+export const SELECTION_ACTIONS: Record<SelectionAction, { label: string; question: string }> = {
+  explain: { label: 'Explain', question: 'Explain this passage.' },
+  summarise: { label: 'Summarise', question: 'Summarise this passage.' },
+  compare: { label: 'Compare with prior year', question: 'How does this compare with the prior year?' }
+};
+
+// Text used to look up passages related to a question and its selection
+export const retrievalQuery = (question: string, selection?: SelectionContext) =>
+  selection ? `${selection.text} ${question}` : question;
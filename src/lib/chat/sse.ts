@@ -0,0 +1,58 @@
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+// Parses a text/event-stream body incrementally. Used instead of EventSource
+// because the chat endpoint is a POST.
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = 'message';
+  let data: string[] = [];
+  let finished = false;
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        finished = true;
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline).replace(/\r$/, '');
+        buffer = buffer.slice(newline + 1);
+
+        // A blank line dispatches the event collected so far
+        if (line === '') {
+          if (data.length > 0) {
+            yield { event, data: data.join('\n') };
+          }
+          event = 'message';
+          data = [];
+          continue;
+        }
+        if (line.startsWith(':')) continue;
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const fieldValue = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+        if (field === 'event') event = fieldValue;
+        else if (field === 'data') data.push(fieldValue);
+      }
+    }
+
+    if (data.length > 0) {
+      yield { event, data: data.join('\n') };
+    }
+  } finally {
+    // Stopped early, e.g. by the Stop button: close the connection rather than
+    // leaving it open until the server finishes
+    if (!finished) await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
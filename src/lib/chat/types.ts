@@ -0,0 +1,73 @@
+export type CitationStatus = 'verified' | 'relocated' | 'fuzzy' | 'not-found';
+
+// Outcome of checking a citation against the document's extracted text
+export type CitationVerification = {
+  status: CitationStatus;
+  // Share of the cited words found in the document; 1 for exact matches
+  confidence: number;
+  // Page the answer originally cited, when the text was found on another page
+  originalPage?: number;
+  // Document text that best matches a fuzzy citation
+  matchedText?: string;
+};
+
+export type Citation = {
+  id: number;
+  text: string;
+  page: number;
+  // Document the quote comes from, when an answer draws on more than one
+  documentId?: string;
+  verification?: CitationVerification;
+};
+
+// Text the user selected in the document and asked about
+export type SelectionContext = {
+  text: string;
+  page: number;
+  // Set when the text was selected in the document being compared against
+  documentId?: string;
+};
+
+export type Message = {
+  id: string;
+  content: string;
+  isUser: boolean;
+  timestamp: Date;
+  citations?: Citation[];
+  // Set when the user stopped the reply before it finished streaming
+  interrupted?: boolean;
+  // Passage the question is about, on questions asked from a selection
+  selection?: SelectionContext;
+};
+
+// The document the question is being asked about
+export type ChatDocumentContext = {
+  id: string;
+  // URL or file name of the PDF
+  source: string;
+  title?: string;
+};
+
+export type ChatRequest = {
+  question: string;
+  document: ChatDocumentContext;
+  // Second document open side by side; answers may cite either one
+  compareDocument?: ChatDocumentContext;
+  history: Message[];
+  selection?: SelectionContext;
+};
+
+export type ChatRequestOptions = {
+  signal?: AbortSignal;
+};
+
+// Incremental pieces of an assistant reply
+export type ChatStreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'citation'; citation: Citation }
+  | { type: 'done'; id?: string };
+
+export interface ChatProvider {
+  sendMessage: (request: ChatRequest, options?: ChatRequestOptions) => Promise<Message>;
+  streamMessage?: (request: ChatRequest, options?: ChatRequestOptions) => AsyncIterable<ChatStreamEvent>;
+}
@@ -0,0 +1,111 @@
+import { findTextMatches } from '../textMatch';
+import type { PageText } from '../retrieval';
+import type { Citation, CitationVerification } from './types';
+
+// Least share of the cited words a passage must contain to count as a fuzzy match
+const FUZZY_THRESHOLD = 0.6;
+// Shorter quotes match too much by chance to be checked fuzzily
+const MIN_FUZZY_WORDS = 3;
+
+interface Word {
+  word: string;
+  start: number;
+  end: number;
+}
+
+const words = (text: string): Word[] =>
+  Array.from(text.toLowerCase().matchAll(/[\p{L}\p{N}]+/gu), match => ({
+    word: match[0],
+    start: match.index,
+    end: match.index + match[0].length
+  }));
+
+// Pages in order of distance from the cited one, so ties favour the citation's page
+const byDistanceFrom = (page: number, pages: PageText[]) =>
+  [...pages].sort((a, b) => Math.abs(a.page - page) - Math.abs(b.page - page) || a.page - b.page);
+
+interface FuzzyMatch {
+  page: number;
+  confidence: number;
+  text: string;
+}
+
+// Slides a window the length of the quote over every page and keeps the one
+// sharing the most words with it
+const findFuzzyMatch = (quote: string, pages: PageText[]): FuzzyMatch | null => {
+  const quoteWords = words(quote);
+  const size = quoteWords.length;
+  if (size < MIN_FUZZY_WORDS) return null;
+
+  const wanted = new Map<string, number>();
+  for (const { word } of quoteWords) wanted.set(word, (wanted.get(word) ?? 0) + 1);
+
+  let best: FuzzyMatch | null = null;
+  for (const { page, text } of pages) {
+    const pageWords = words(text);
+    const window = new Map<string, number>();
+    let overlap = 0;
+
+    const add = (word: string) => {
+      const count = (window.get(word) ?? 0) + 1;
+      window.set(word, count);
+      if (count <= (wanted.get(word) ?? 0)) overlap++;
+    };
+    const remove = (word: string) => {
+      const count = window.get(word) ?? 0;
+      window.set(word, count - 1);
+      if (count <= (wanted.get(word) ?? 0)) overlap--;
+    };
+
+    for (let end = 0; end < pageWords.length; end++) {
+      add(pageWords[end].word);
+      const start = end - size + 1;
+      if (start > 0) remove(pageWords[start - 1].word);
+
+      const confidence = overlap / size;
+      if (confidence > (best?.confidence ?? 0)) {
+        best = {
+          page,
+          confidence,
+          text: text.slice(pageWords[Math.max(start, 0)].start, pageWords[end].end).replace(/\s+/g, ' ')
+        };
+      }
+    }
+  }
+
+  return best && best.confidence >= FUZZY_THRESHOLD ? best : null;
+};
+
+// Where the citation's text really is, and how closely it matches
+const checkCitation = ({ text, page }: Citation, pages: PageText[]): { page: number; verification: CitationVerification } => {
+  const ordered = byDistanceFrom(page, pages);
+  const exact = ordered.find(p => findTextMatches([p.text], text).length > 0);
+  if (exact) {
+    return exact.page === page
+      ? { page, verification: { status: 'verified', confidence: 1 } }
+      : { page: exact.page, verification: { status: 'relocated', confidence: 1, originalPage: page } };
+  }
+
+  const fuzzy = findFuzzyMatch(text, ordered);
+  if (fuzzy) {
+    return {
+      page: fuzzy.page,
+      verification: {
+        status: 'fuzzy',
+        confidence: fuzzy.confidence,
+        matchedText: fuzzy.text,
+        ...(fuzzy.page !== page && { originalPage: page })
+      }
+    };
+  }
+
+  return { page, verification: { status: 'not-found', confidence: 0 } };
+};
+
+// Checks each citation that hasn't been checked yet and moves it to the page its
+// text was actually found on
+export function verifyCitations(citations: Citation[], pages: PageText[]): Citation[] {
+  return citations.map(citation => (
+    citation.verification ? citation : { ...citation, ...checkCitation(citation, pages) }
+  ));
+}
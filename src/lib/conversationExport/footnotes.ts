@@ -0,0 +1,84 @@
+import type { Citation, Message } from '../chat';
+
+// Citations across a whole thread, numbered in reading order as footnotes
+
+export interface ExportedDocument {
+  title: string;
+  // Absolute URL of the PDF, when it has one; uploaded files only have a name
+  url?: string;
+}
+
+export interface ExportedConversation {
+  title: string;
+  document: ExportedDocument;
+  // Other documents cited by id, e.g. the report the conversation compared against
+  documents?: Record<string, ExportedDocument>;
+  messages: Message[];
+  exportedAt: Date;
+}
+
+export interface Footnote {
+  number: number;
+  text: string;
+  page: number;
+  documentId?: string;
+  // The document's own wording, for locating the cited region of fuzzy matches
+  sourceText: string;
+}
+
+export interface NumberedMessage {
+  message: Message;
+  // Citation id within the message → footnote number
+  footnotes: Map<number, number>;
+}
+
+export function numberFootnotes(messages: Message[]): { messages: NumberedMessage[]; footnotes: Footnote[] } {
+  const footnotes: Footnote[] = [];
+  const numbered = messages.map(message => {
+    const map = new Map<number, number>();
+    const citations = new Map<number, Citation>((message.citations ?? []).map(citation => [citation.id, citation]));
+
+    // Number citations in the order their markers appear, then any that were never referenced
+    const order = [
+      ...Array.from(message.content.matchAll(/\[(\d+)\]/g), match => Number(match[1])),
+      ...citations.keys()
+    ];
+    for (const id of order) {
+      const citation = citations.get(id);
+      if (!citation || map.has(id)) continue;
+      footnotes.push({
+        number: footnotes.length + 1,
+        text: citation.text.replace(/\s+/g, ' ').trim(),
+        page: citation.page,
+        ...(citation.documentId && { documentId: citation.documentId }),
+        sourceText: citation.verification?.matchedText ?? citation.text
+      });
+      map.set(id, footnotes.length);
+    }
+    return { message, footnotes: map };
+  });
+
+  return { messages: numbered, footnotes };
+}
+
+// Link to a page of the source PDF, using the #page fragment PDF viewers understand
+export const pageLink = (document: ExportedDocument, page: number) =>
+  document.url ? `${document.url}#page=${page}` : undefined;
+
+// The document a footnote points into, and the prefix naming it when it isn't the conversation's own
+export const footnoteSource = ({ document, documents }: ExportedConversation, { documentId }: Footnote) => {
+  const cited = documentId ? documents?.[documentId] : undefined;
+  return { document: cited ?? document, prefix: cited ? `${cited.title}, ` : '' };
+};
+
+// Replaces [n] markers with whatever the format uses for footnote number k
+export const replaceMarkers = (content: string, footnotes: Map<number, number>, format: (number: number) => string) =>
+  content.replace(/\[(\d+)\]/g, (marker, id) => {
+    const number = footnotes.get(Number(id));
+    return number === undefined ? marker : format(number);
+  });
+
+export const speaker = (message: Message) => (message.isUser ? 'You' : 'Assistant');
+
+export const formatTime = (date: Date) =>
+  date.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
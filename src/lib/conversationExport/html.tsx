@@ -0,0 +1,111 @@
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { remarkCitations } from '../remarkCitations';
+import { footnoteSource, formatTime, numberFootnotes, pageLink, speaker, type ExportedConversation, type NumberedMessage } from './footnotes';
+
+const STYLES = `
+body { font: 15px/1.55 system-ui, -apple-system, "Segoe UI", sans-serif; color: #111827; max-width: 46rem; margin: 2rem auto; padding: 0 1rem; }
+header { border-bottom: 1px solid #e5e7eb; margin-bottom: 1.5rem; }
+h1 { font-size: 1.6rem; margin-bottom: .25rem; }
+.meta { color: #6b7280; font-size: .85rem; }
+.message { margin: 1.25rem 0; }
+.message.user .body { background: #eff6ff; border-radius: .5rem; padding: .5rem .75rem; }
+.speaker { font-weight: 600; }
+blockquote { border-left: 3px solid #d1d5db; margin: .5rem 0; padding-left: .75rem; color: #374151; font-style: italic; }
+table { border-collapse: collapse; margin: .5rem 0; font-size: .9rem; }
+th, td { border: 1px solid #d1d5db; padding: .25rem .5rem; }
+sup a { text-decoration: none; }
+.sources li { margin-bottom: .75rem; }
+.sources img { display: block; max-width: 100%; max-height: 16rem; margin-top: .35rem; border: 1px solid #e5e7eb; }
+`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const MessageBody = ({ message, footnotes }: NumberedMessage) => {
+  const components: Components = {
+    cite: ({ node }) => {
+      const number = footnotes.get(Number(node?.properties?.dataCitation));
+      return <sup><a href={`#fn-${number}`}>[{number}]</a></sup>;
+    }
+  };
+
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, [remarkCitations, { ids: new Set(footnotes.keys()) }]]}
+      components={components}
+    >
+      {message.content}
+    </ReactMarkdown>
+  );
+};
+
+// Standalone HTML page with numbered footnotes and, optionally, images of the
+// cited regions keyed by footnote number
+export function conversationToHtml(
+  conversation: ExportedConversation,
+  images: Map<number, string> = new Map()
+): string {
+  const { title, document, messages, exportedAt } = conversation;
+  const { messages: numbered, footnotes } = numberFootnotes(messages);
+
+  const body = renderToStaticMarkup(
+    <>
+      <header>
+        <h1>{title}</h1>
+        <p className="meta">
+          Source: {document.url ? <a href={document.url}>{document.title}</a> : document.title}
+          {' · '}Exported {formatTime(exportedAt)}
+        </p>
+      </header>
+      {numbered.map(item => (
+        <section key={item.message.id} className={`message ${item.message.isUser ? 'user' : 'assistant'}`}>
+          <p className="meta">
+            <span className="speaker">{speaker(item.message)}</span> · {formatTime(item.message.timestamp)}
+          </p>
+          <div className="body">
+            {item.message.selection && (
+              <blockquote>
+                {item.message.selection.text} <span className="meta">— page {item.message.selection.page}</span>
+              </blockquote>
+            )}
+            <MessageBody {...item} />
+          </div>
+        </section>
+      ))}
+      {footnotes.length > 0 && (
+        <section className="sources">
+          <h2>Sources</h2>
+          <ol>
+            {footnotes.map(footnote => {
+              const { number, text, page } = footnote;
+              const { document: cited, prefix } = footnoteSource(conversation, footnote);
+              const link = pageLink(cited, page);
+              return (
+                <li key={number} id={`fn-${number}`}>
+                  “{text}” — {prefix}{link ? <a href={link}>page {page}</a> : `page ${page}`}
+                  {images.has(number) && <img src={images.get(number)} alt={`Cited region on page ${page}`} />}
+                </li>
+              );
+            })}
+          </ol>
+        </section>
+      )}
+    </>
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,9 @@
+export {
+  numberFootnotes,
+  type ExportedConversation,
+  type ExportedDocument,
+  type Footnote
+} from './footnotes';
+export { conversationToMarkdown } from './markdown';
+export { conversationToHtml } from './html';
+export { conversationToPdf } from './pdf';
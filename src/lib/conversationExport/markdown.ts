@@ -0,0 +1,30 @@
+import { footnoteSource, formatTime, numberFootnotes, pageLink, replaceMarkers, speaker, type ExportedConversation } from './footnotes';
+
+// Markdown with GFM footnotes: [n] markers become [^k] and the sources are listed at the end
+export function conversationToMarkdown(conversation: ExportedConversation): string {
+  const { title, document, messages, exportedAt } = conversation;
+  const { messages: numbered, footnotes } = numberFootnotes(messages);
+  const source = document.url ? `[${document.title}](${document.url})` : document.title;
+  const lines = [`# ${title}`, '', `Source: ${source}  `, `Exported: ${formatTime(exportedAt)}`, '', '---', ''];
+
+  for (const { message, footnotes: map } of numbered) {
+    lines.push(`**${speaker(message)}** · ${formatTime(message.timestamp)}`, '');
+    if (message.selection) {
+      lines.push(`> ${message.selection.text.replace(/\s+/g, ' ').trim()}`, `> — page ${message.selection.page}`, '');
+    }
+    lines.push(replaceMarkers(message.content, map, number => `[^${number}]`), '');
+  }
+
+  if (footnotes.length > 0) {
+    lines.push('## Sources', '');
+    for (const footnote of footnotes) {
+      const { number, text, page } = footnote;
+      const { document: cited, prefix } = footnoteSource(conversation, footnote);
+      const link = pageLink(cited, page);
+      lines.push(`[^${number}]: “${text}” — ${prefix}page ${page}${link ? ` ([open](${link}))` : ''}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
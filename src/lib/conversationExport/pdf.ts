@@ -0,0 +1,118 @@
+import { footnoteSource, formatTime, numberFootnotes, pageLink, replaceMarkers, speaker, type ExportedConversation } from './footnotes';
+
+const PAGE_MARGIN = 18;
+const LINE_HEIGHT = 1.4;
+const IMAGE_MAX_WIDTH = 100;
+const IMAGE_MAX_HEIGHT = 60;
+
+// The PDF is laid out as plain text, so Markdown syntax other than tables is dropped
+const plainText = (markdown: string) => markdown
+  .replace(/^#{1,6}\s+/gm, '')
+  .replace(/(\*\*|__)(.*?)\1/g, '$2')
+  .replace(/(^|[^*])\*(?!\s)([^*]+)\*/g, '$1$2')
+  .replace(/`([^`]*)`/g, '$1')
+  .replace(/^\s*[-*+]\s+/gm, '• ')
+  .replace(/^\|?\s*:?-{3,}.*$/gm, '')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+const imageSize = (src: string) => new Promise<{ width: number; height: number }>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+  image.onerror = () => reject(new Error('Could not read the cited region image.'));
+  image.src = src;
+});
+
+// Generates a PDF of the thread with footnotes, and images of the cited regions
+// keyed by footnote number when they are given. jsPDF is only loaded when needed.
+export async function conversationToPdf(
+  conversation: ExportedConversation,
+  images: Map<number, string> = new Map()
+): Promise<Blob> {
+  const { title, document, messages, exportedAt } = conversation;
+  const { jsPDF } = await import('jspdf');
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const textWidth = pageWidth - PAGE_MARGIN * 2;
+  let y = PAGE_MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - PAGE_MARGIN) {
+      pdf.addPage();
+      y = PAGE_MARGIN;
+    }
+  };
+
+  const write = (text: string, { size = 10.5, style = 'normal', color = 20, indent = 0 } = {}) => {
+    pdf.setFont('helvetica', style);
+    pdf.setFontSize(size);
+    pdf.setTextColor(color);
+    const lineHeight = size * 0.3528 * LINE_HEIGHT;
+    for (const line of pdf.splitTextToSize(text, textWidth - indent) as string[]) {
+      ensureSpace(lineHeight);
+      pdf.text(line, PAGE_MARGIN + indent, y + lineHeight * 0.8);
+      y += lineHeight;
+    }
+  };
+
+  const { messages: numbered, footnotes } = numberFootnotes(messages);
+
+  write(title, { size: 18, style: 'bold' });
+  y += 1;
+  write(`Source: ${document.title} · Exported ${formatTime(exportedAt)}`, { size: 9, color: 110 });
+  if (document.url) {
+    pdf.setFontSize(9);
+    pdf.textWithLink(document.url, PAGE_MARGIN, y + 3, { url: document.url });
+    y += 5;
+  }
+  y += 6;
+
+  for (const { message, footnotes: map } of numbered) {
+    ensureSpace(14);
+    write(`${speaker(message)} · ${formatTime(message.timestamp)}`, { size: 9, style: 'bold', color: 90 });
+    if (message.selection) {
+      write(`“${message.selection.text.replace(/\s+/g, ' ').trim()}” — page ${message.selection.page}`, {
+        style: 'italic',
+        color: 80,
+        indent: 4
+      });
+    }
+    write(plainText(replaceMarkers(message.content, map, number => `[${number}]`)));
+    y += 5;
+  }
+
+  if (footnotes.length > 0) {
+    ensureSpace(16);
+    write('Sources', { size: 14, style: 'bold' });
+    y += 2;
+
+    for (const footnote of footnotes) {
+      const { number, text, page } = footnote;
+      const { document: cited, prefix } = footnoteSource(conversation, footnote);
+      write(`[${number}] “${text}” — ${prefix}page ${page}`, { size: 9.5 });
+      const link = pageLink(cited, page);
+      if (link) {
+        ensureSpace(5);
+        pdf.setFontSize(8.5);
+        pdf.setTextColor(30, 64, 175);
+        pdf.textWithLink(`Open page ${page}`, PAGE_MARGIN + 6, y + 3, { url: link });
+        y += 5;
+      }
+
+      const image = images.get(number);
+      if (image) {
+        const size = await imageSize(image).catch(() => null);
+        if (size) {
+          const height = Math.min(IMAGE_MAX_WIDTH * size.height / size.width, IMAGE_MAX_HEIGHT);
+          ensureSpace(height + 2);
+          pdf.addImage(image, 'PNG', PAGE_MARGIN + 6, y + 1, height * size.width / size.height, height);
+          y += height + 3;
+        }
+      }
+      y += 3;
+    }
+  }
+
+  return pdf.output('blob');
+}
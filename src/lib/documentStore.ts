@@ -0,0 +1,74 @@
+import { createId } from './id';
+
+// Uploaded PDFs are kept in IndexedDB so the library survives a reload
+
+export type StoredDocument = {
+  id: string;
+  name: string;
+  // Title from the PDF metadata, filled in once the document has been opened
+  title?: string;
+  size: number;
+  addedAt: Date;
+  file: Blob;
+};
+
+const DB_NAME = 'cloud-motive';
+const DB_VERSION = 1;
+const DOCUMENTS = 'documents';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(DOCUMENTS)) {
+        db.createObjectStore(DOCUMENTS, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  return promisify(run(db.transaction(DOCUMENTS, mode).objectStore(DOCUMENTS)));
+};
+
+export async function listDocuments(): Promise<StoredDocument[]> {
+  const documents = await withStore('readonly', store => store.getAll() as IDBRequest<StoredDocument[]>);
+  return documents.sort((a, b) => a.addedAt.getTime() - b.addedAt.getTime());
+}
+
+export async function saveDocument(file: File): Promise<StoredDocument> {
+  const document: StoredDocument = {
+    id: createId(),
+    name: file.name,
+    size: file.size,
+    addedAt: new Date(),
+    file
+  };
+  await withStore('readwrite', store => store.put(document));
+  return document;
+}
+
+export async function updateDocument(id: string, changes: Partial<Pick<StoredDocument, 'title' | 'name'>>): Promise<void> {
+  const existing = await withStore('readonly', store => store.get(id) as IDBRequest<StoredDocument | undefined>);
+  if (!existing) return;
+  await withStore('readwrite', store => store.put({ ...existing, ...changes }));
+}
+
+export async function deleteDocument(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
@@ -0,0 +1,23 @@
+// Firefox and Safari start the download after click() returns, so the link and its
+// URL have to outlive the click for a moment
+const REVOKE_DELAY = 1000;
+
+// Saves generated content as a file through a temporary link
+export function downloadFile(content: BlobPart | Blob, fileName: string, type: string) {
+  const blob = content instanceof Blob ? content : new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  setTimeout(() => {
+    URL.revokeObjectURL(url);
+    link.remove();
+  }, REVOKE_DELAY);
+}
+
+// File name safe version of a title, without a .pdf extension
+export const fileNameBase = (title: string) =>
+  title.replace(/\.pdf$/i, '').replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'document';
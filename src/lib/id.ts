@@ -0,0 +1,11 @@
+// Random ids for stored records. crypto.randomUUID only exists in secure contexts
+// (HTTPS or localhost), but the app is also served over plain HTTP on local networks;
+// getRandomValues works everywhere.
+export function createId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  // Shaped like a version 4 UUID, as earlier ids from randomUUID are
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
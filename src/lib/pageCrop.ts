@@ -0,0 +1,89 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { findTextMatches } from './textMatch';
+
+interface CropOptions {
+  // Width of the resulting image in CSS pixels
+  width?: number;
+  // Space kept around the text, in PDF units
+  padding?: number;
+  // Tallest region rendered, in PDF units, so long quotes don't produce whole pages
+  maxHeight?: number;
+}
+
+const MAX_SCALE = 2.5;
+
+interface Box {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Bounding box, in unscaled viewport coordinates, of the first place the text occurs on the page
+const findTextBox = async (pdf: PDFDocumentProxy, pageNumber: number, text: string): Promise<Box | null> => {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: 1 });
+  const items = (await page.getTextContent()).items.filter((item): item is TextItem => 'str' in item);
+
+  // Same parts as the text layer, remembering which item each came from
+  const parts: string[] = [];
+  const owners: number[] = [];
+  items.forEach((item, index) => {
+    parts.push(item.str);
+    owners.push(index);
+    if (item.hasEOL) {
+      parts.push('\n');
+      owners.push(index);
+    }
+  });
+
+  const [match] = findTextMatches(parts, text);
+  if (!match) return null;
+
+  let box: Box | null = null;
+  for (let index = owners[match.start.part]; index <= owners[Math.min(match.end.part, owners.length - 1)]; index++) {
+    const { transform, width, height } = items[index];
+    const [x, y] = [transform[4], transform[5]];
+    const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([x, y, x + width, y + (height || Math.hypot(transform[2], transform[3]))]);
+    const item = { left: Math.min(x1, x2), top: Math.min(y1, y2), right: Math.max(x1, x2), bottom: Math.max(y1, y2) };
+    box = box
+      ? { left: Math.min(box.left, item.left), top: Math.min(box.top, item.top), right: Math.max(box.right, item.right), bottom: Math.max(box.bottom, item.bottom) }
+      : item;
+  }
+  return box;
+};
+
+// Renders the part of a page around a piece of text and returns it as a PNG data URL,
+// or null when the text isn't on that page
+export async function renderTextCrop(
+  pdf: PDFDocumentProxy,
+  pageNumber: number,
+  text: string,
+  { width = 320, padding = 12, maxHeight = 240 }: CropOptions = {}
+): Promise<string | null> {
+  const box = await findTextBox(pdf, pageNumber, text);
+  if (!box) return null;
+
+  const page = await pdf.getPage(pageNumber);
+  const full = page.getViewport({ scale: 1 });
+  const left = Math.max(box.left - padding, 0);
+  const top = Math.max(box.top - padding, 0);
+  const right = Math.min(box.right + padding, full.width);
+  const bottom = Math.min(box.bottom + padding, full.height, top + maxHeight);
+
+  // Short quotes aren't blown up past a readable magnification
+  const scale = Math.min(width / (right - left), MAX_SCALE) * (window.devicePixelRatio || 1);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil((right - left) * scale);
+  canvas.height = Math.ceil((bottom - top) * scale);
+
+  // Shift the page so only the cropped region lands on the canvas
+  await page.render({
+    canvas,
+    viewport: page.getViewport({ scale }),
+    transform: [1, 0, 0, 1, -left * scale, -top * scale]
+  }).promise;
+
+  return canvas.toDataURL('image/png');
+}
@@ -0,0 +1,90 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+export interface OutlineNode {
+  id: string;
+  title: string;
+  // Destination page, or null for entries that don't point into the document
+  pageNumber: number | null;
+  // Destination's distance from the top of the page as a fraction of its height
+  top: number | null;
+  children: OutlineNode[];
+}
+
+type RawOutline = Awaited<ReturnType<PDFDocumentProxy['getOutline']>>;
+type Destination = unknown[];
+
+const resolveDestination = async (pdf: PDFDocumentProxy, dest: string | Destination | null) => {
+  const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+  if (!Array.isArray(explicit) || explicit.length === 0) return { pageNumber: null, top: null };
+
+  // The first element is either a page reference or a zero-based page index
+  const [target, mode, ...args] = explicit as [unknown, { name?: string } | undefined, ...unknown[]];
+  const pageIndex = typeof target === 'number'
+    ? target
+    : await pdf.getPageIndex(target as Parameters<PDFDocumentProxy['getPageIndex']>[0]);
+  const pageNumber = pageIndex + 1;
+
+  // XYZ and FitH/FitBH destinations carry a y position in PDF units, measured from the bottom
+  let y: unknown = null;
+  if (mode?.name === 'XYZ') y = args[1];
+  else if (mode?.name === 'FitH' || mode?.name === 'FitBH') y = args[0];
+  if (typeof y !== 'number') return { pageNumber, top: null };
+
+  const page = await pdf.getPage(pageNumber);
+  const [, yMin, , yMax] = page.view;
+  const height = yMax - yMin;
+  return { pageNumber, top: Math.min(Math.max((yMax - y) / height, 0), 1) };
+};
+
+// Reads the document outline and resolves every destination to a page
+export async function loadOutline(pdf: PDFDocumentProxy): Promise<OutlineNode[]> {
+  const outline = await pdf.getOutline();
+  if (!outline) return [];
+
+  const build = (items: RawOutline, path: string): Promise<OutlineNode[]> => Promise.all(
+    items.map(async (item, index) => {
+      const id = `${path}${index}`;
+      const destination = await resolveDestination(pdf, item.dest as string | Destination | null)
+        .catch(() => ({ pageNumber: null, top: null }));
+      return {
+        id,
+        title: item.title,
+        ...destination,
+        children: await build(item.items ?? [], `${id}.`)
+      };
+    })
+  );
+
+  return build(outline, '');
+}
+
+// Deepest entry whose destination is at or before the page, in reading order
+export function findActiveOutlineNode(nodes: OutlineNode[], pageNumber: number): OutlineNode | null {
+  let active: OutlineNode | null = null;
+  const visit = (list: OutlineNode[]) => {
+    for (const node of list) {
+      if (node.pageNumber !== null && node.pageNumber <= pageNumber) {
+        if (!active || node.pageNumber >= (active.pageNumber ?? 0)) active = node;
+      }
+      visit(node.children);
+    }
+  };
+  visit(nodes);
+  return active;
+}
+
+// Section numbering, case and spacing differ between reports, so titles are compared without them
+const normalizeTitle = (title: string) =>
+  title.toLowerCase().replace(/^[\s\d.]+/, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+// First entry with a destination whose title matches, in reading order
+export function findOutlineNodeByTitle(nodes: OutlineNode[], title: string): OutlineNode | null {
+  const wanted = normalizeTitle(title);
+  if (!wanted) return null;
+  for (const node of nodes) {
+    if (node.pageNumber !== null && normalizeTitle(node.title) === wanted) return node;
+    const found = findOutlineNodeByTitle(node.children, title);
+    if (found) return found;
+  }
+  return null;
+}
@@ -0,0 +1,189 @@
+import { pdfjs } from 'react-pdf';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+// The one place pdf.js is configured. The worker is bundled by Vite, and the files pdf.js
+// fetches while rendering are copied to /pdfjs/ by vite.config.ts, so documents open
+// without any network access.
+
+export type PdfResource = 'worker' | 'document' | 'cmaps' | 'standard-fonts' | 'wasm';
+
+// Why a document couldn't be opened, each with its own message in the viewer
+export type PdfLoadErrorKind =
+  | 'password'
+  | 'corrupt'
+  | 'network'
+  | 'wrong-type'
+  | 'missing-resource'
+  | 'unknown';
+
+export interface PdfLoadProblem {
+  kind: PdfLoadErrorKind;
+  resource: PdfResource;
+  // The address that failed, when known
+  url?: string;
+  message: string;
+}
+
+// pdf.js fetches these from inside the worker, so they need to be absolute
+const assetUrl = (dir: string) => new URL(`${import.meta.env.BASE_URL}pdfjs/${dir}/`, window.location.href).href;
+
+const cMapUrl = assetUrl('cmaps');
+const standardFontDataUrl = assetUrl('standard_fonts');
+const wasmUrl = assetUrl('wasm');
+
+pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+// For every document: react-pdf's `options` prop and direct getDocument calls.
+// Kept as a module constant because react-pdf reloads the document when it changes.
+export const pdfDocumentOptions = {
+  cMapUrl,
+  cMapPacked: true,
+  standardFontDataUrl,
+  wasmUrl,
+  iccUrl: assetUrl('iccs')
+};
+
+const RESOURCE_LABELS: Record<PdfResource, string> = {
+  worker: 'the PDF worker script',
+  document: 'the PDF file',
+  cmaps: 'the character maps (cMaps)',
+  'standard-fonts': 'the standard fonts',
+  wasm: 'the image decoders (wasm)'
+};
+
+// A file from each bundled resource, fetched to check it is actually being served
+const PROBES: Array<{ resource: PdfResource; url: string }> = [
+  { resource: 'worker', url: new URL(workerUrl, window.location.href).href },
+  { resource: 'cmaps', url: `${cMapUrl}UniJIS-UTF16-H.bcmap` },
+  { resource: 'standard-fonts', url: `${standardFontDataUrl}FoxitSerif.pfb` },
+  { resource: 'wasm', url: `${wasmUrl}openjpeg.wasm` }
+];
+
+// Messages pdf.js uses when a file it fetches while rendering can't be loaded
+const FETCH_FAILURE = /Unable to load (?:binary )?(CMap|font data|wasm data) at: (\S+)/;
+const FETCH_FAILURE_RESOURCES: Record<string, PdfResource> = {
+  CMap: 'cmaps',
+  'font data': 'standard-fonts',
+  'wasm data': 'wasm'
+};
+
+const missing = (resource: PdfResource, url?: string): PdfLoadProblem => ({
+  kind: 'missing-resource',
+  resource,
+  url,
+  message: `Couldn't load ${RESOURCE_LABELS[resource]}${url ? ` from ${url}` : ''}.`
+});
+
+// Servers with a single-page-app fallback answer missing files with index.html
+const isServed = async (url: string) => {
+  try {
+    const response = await fetch(url, { method: 'HEAD', cache: 'no-store' });
+    return response.ok && !response.headers.get('content-type')?.includes('text/html');
+  } catch {
+    return false;
+  }
+};
+
+// The first bundled pdf.js resource that isn't being served, if any
+export async function findMissingResource(): Promise<PdfLoadProblem | null> {
+  for (const { resource, url } of PROBES) {
+    if (!(await isServed(url))) return missing(resource, url);
+  }
+  return null;
+}
+
+// Looks at the first bytes of the source: PDFs start with a %PDF- header near the beginning
+const sniffSource = async (source: string | File): Promise<{ isPdf: boolean; type?: string } | null> => {
+  try {
+    if (typeof source !== 'string') {
+      const head = await source.slice(0, 1024).text();
+      return { isPdf: head.includes('%PDF-'), type: source.type || undefined };
+    }
+
+    const response = await fetch(source, { cache: 'no-store' });
+    if (!response.ok || !response.body) return null;
+    const reader = response.body.getReader();
+    const { value } = await reader.read();
+    reader.cancel().catch(() => undefined);
+    const head = new TextDecoder('latin1').decode(value?.slice(0, 1024));
+    return { isPdf: head.includes('%PDF-'), type: response.headers.get('content-type')?.split(';')[0] || undefined };
+  } catch {
+    return null;
+  }
+};
+
+const describeSource = (source?: string | File | null) =>
+  source instanceof File ? `"${source.name}"` : 'This file';
+
+// For documents whose password wasn't given
+export const passwordProblem = (source?: string | File | null): PdfLoadProblem => ({
+  kind: 'password',
+  resource: 'document',
+  url: typeof source === 'string' ? new URL(source, window.location.href).href : undefined,
+  message: `${describeSource(source)} is password-protected. Enter its password to open it.`
+});
+
+// Works out why a document couldn't be loaded, or which resource a rendering error is about
+export async function describePdfError(error: unknown, source?: string | File | null): Promise<PdfLoadProblem> {
+  const reason = error instanceof Error ? error.message : String(error);
+  const name = (error as Error | null)?.name;
+  const url = typeof source === 'string' ? new URL(source, window.location.href).href : undefined;
+
+  const fetchFailure = reason.match(FETCH_FAILURE);
+  if (fetchFailure) return missing(FETCH_FAILURE_RESOURCES[fetchFailure[1]], fetchFailure[2]);
+
+  if (name === 'PasswordException') return passwordProblem(source);
+
+  // The server answered, but not with the document
+  if (name === 'ResponseException' && url) {
+    const { status } = error as { status?: unknown };
+    const notFound = status === 404 || (error as { missing?: unknown }).missing === true;
+    return {
+      kind: 'network',
+      resource: 'document',
+      url,
+      message: notFound
+        ? `The PDF wasn't found at ${url}.`
+        : `Couldn't load the PDF file from ${url}${typeof status === 'number' && status > 0 ? ` (HTTP ${status})` : ''}.`
+    };
+  }
+
+  // No answer at all, e.g. when offline
+  if (url && /failed to fetch|fetch failed|networkerror|network error|load failed/i.test(reason)) {
+    return { kind: 'network', resource: 'document', url, message: `Couldn't reach ${url}. Check the connection and try again.` };
+  }
+
+  // Anything else may still come down to a missing worker or asset, e.g. after a partial deployment
+  if (name !== 'InvalidPDFException') {
+    const missingResource = await findMissingResource();
+    if (missingResource) return missingResource;
+  }
+
+  // Unreadable documents are either something other than a PDF, or a damaged one
+  const sniffed = source ? await sniffSource(source) : null;
+  if (sniffed && !sniffed.isPdf) {
+    return {
+      kind: 'wrong-type',
+      resource: 'document',
+      url,
+      message: `${describeSource(source)} isn't a PDF${
+        sniffed.type ? (url ? ` (the server sent ${sniffed.type})` : ` (its type is ${sniffed.type})`) : ''
+      }.`
+    };
+  }
+  if (name === 'InvalidPDFException' || sniffed?.isPdf) {
+    return {
+      kind: 'corrupt',
+      resource: 'document',
+      url,
+      message: `${describeSource(source)} is damaged or incomplete, so it can't be opened.`
+    };
+  }
+
+  return {
+    kind: 'unknown',
+    resource: 'document',
+    url,
+    message: `Failed to load the PDF: ${reason}`
+  };
+}
@@ -0,0 +1,43 @@
+import type { Parent, Root, RootContent, Text } from 'mdast';
+
+interface RemarkCitationsOptions {
+  // Only markers with a matching citation become interactive
+  ids: Set<number>;
+}
+
+const MARKER = /\[(\d+)\]/g;
+
+// Rendered as <cite data-citation="n">[n]</cite> by mdast-util-to-hast
+const citationNode = (label: string, id: number): Text => ({
+  type: 'text',
+  value: label,
+  data: { hName: 'cite', hProperties: { dataCitation: id } } as Text['data']
+});
+
+const splitMarkers = (node: Text, ids: Set<number>): Text[] => {
+  const nodes: Text[] = [];
+  let last = 0;
+  for (const match of node.value.matchAll(MARKER)) {
+    const id = Number(match[1]);
+    if (!ids.has(id)) continue;
+    if (match.index > last) nodes.push({ type: 'text', value: node.value.slice(last, match.index) });
+    nodes.push(citationNode(match[0], id));
+    last = match.index + match[0].length;
+  }
+  if (nodes.length === 0) return [node];
+  if (last < node.value.length) nodes.push({ type: 'text', value: node.value.slice(last) });
+  return nodes;
+};
+
+// Remark plugin turning "[n]" markers in any text (paragraphs, list items, table
+// cells, emphasis…) into citation elements. Code is left untouched.
+export function remarkCitations({ ids }: RemarkCitationsOptions) {
+  const visit = (parent: Parent) => {
+    parent.children = parent.children.flatMap<RootContent>(child => {
+      if (child.type === 'text') return splitMarkers(child, ids);
+      if ('children' in child) visit(child);
+      return [child];
+    }) as Parent['children'];
+  };
+  return (tree: Root) => visit(tree);
+}
@@ -0,0 +1,74 @@
+// Okapi BM25 ranking over a fixed set of passages
+
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'did', 'do', 'does', 'for', 'from', 'had', 'has',
+  'have', 'how', 'in', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'their', 'this', 'to',
+  'was', 'were', 'what', 'when', 'which', 'who', 'why', 'with'
+]);
+
+// Lowercased words and numbers; "2.3" and "1,234" stay whole, plurals are folded
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const [token] of text.toLowerCase().matchAll(/[\p{L}\p{N}]+(?:[.,]\p{N}+)*/gu)) {
+    if (STOP_WORDS.has(token)) continue;
+    tokens.push(token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token);
+  }
+  return tokens;
+}
+
+export interface BM25Result {
+  index: number;
+  score: number;
+}
+
+export interface BM25Index {
+  search: (query: string, limit?: number) => BM25Result[];
+}
+
+export function createBM25Index(documents: string[]): BM25Index {
+  const termFrequencies = documents.map(document => {
+    const counts = new Map<string, number>();
+    for (const token of tokenize(document)) counts.set(token, (counts.get(token) ?? 0) + 1);
+    return counts;
+  });
+  const lengths = documents.map((_, index) => {
+    let length = 0;
+    termFrequencies[index].forEach(count => { length += count; });
+    return length;
+  });
+  const averageLength = lengths.reduce((sum, length) => sum + length, 0) / Math.max(documents.length, 1);
+
+  const documentFrequency = new Map<string, number>();
+  for (const counts of termFrequencies) {
+    counts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+  }
+
+  const idf = (term: string) => {
+    const frequency = documentFrequency.get(term) ?? 0;
+    return Math.log(1 + (documents.length - frequency + 0.5) / (frequency + 0.5));
+  };
+
+  return {
+    search: (query, limit = 5) => {
+      const terms = Array.from(new Set(tokenize(query)));
+      if (terms.length === 0) return [];
+
+      const results: BM25Result[] = [];
+      termFrequencies.forEach((counts, index) => {
+        let score = 0;
+        for (const term of terms) {
+          const frequency = counts.get(term);
+          if (!frequency) continue;
+          const norm = K1 * (1 - B + B * lengths[index] / (averageLength || 1));
+          score += idf(term) * (frequency * (K1 + 1)) / (frequency + norm);
+        }
+        if (score > 0) results.push({ index, score });
+      });
+
+      return results.sort((a, b) => b.score - a.score).slice(0, limit);
+    }
+  };
+}
@@ -0,0 +1,68 @@
+export interface PageText {
+  page: number;
+  text: string;
+}
+
+// A passage of page text; start and end are offsets into that page's text
+export interface Passage {
+  id: number;
+  page: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+const MIN_PASSAGE_LENGTH = 40;
+const MAX_PASSAGE_LENGTH = 320;
+
+// Sentence ends followed by what looks like the start of the next sentence
+const SENTENCE_END = /[.!?](?=\s+["“(]?[A-Z0-9])/g;
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Cut at the last space before the limit so words aren't split
+const splitLong = (start: number, end: number, text: string): Array<[number, number]> => {
+  const ranges: Array<[number, number]> = [];
+  let from = start;
+  while (end - from > MAX_PASSAGE_LENGTH) {
+    const space = text.lastIndexOf(' ', from + MAX_PASSAGE_LENGTH);
+    const cut = space > from + MIN_PASSAGE_LENGTH ? space : from + MAX_PASSAGE_LENGTH;
+    ranges.push([from, cut]);
+    from = cut;
+  }
+  ranges.push([from, end]);
+  return ranges;
+};
+
+// Splits each page into sentence-sized passages. Short sentences are merged with
+// the next one, and long runs without punctuation (typical of tables) are cut.
+export function chunkPages(pages: PageText[]): Passage[] {
+  const passages: Passage[] = [];
+
+  for (const { page, text } of pages) {
+    const boundaries = [0];
+    for (const match of text.matchAll(SENTENCE_END)) boundaries.push(match.index + 1);
+    boundaries.push(text.length);
+
+    let start = 0;
+    for (let index = 1; index < boundaries.length; index++) {
+      const end = boundaries[index];
+      const isLast = index === boundaries.length - 1;
+      if (collapseWhitespace(text.slice(start, end)).length < MIN_PASSAGE_LENGTH && !isLast) continue;
+
+      for (const [from, to] of splitLong(start, end, text)) {
+        const raw = text.slice(from, to);
+        const passageText = collapseWhitespace(raw);
+        if (passageText) {
+          // Offsets point at the passage itself, not the whitespace around it
+          const leading = raw.length - raw.trimStart().length;
+          const trailing = raw.length - raw.trimEnd().length;
+          passages.push({ id: passages.length, page, start: from + leading, end: to - trailing, text: passageText });
+        }
+      }
+      start = end;
+    }
+  }
+
+  return passages;
+}
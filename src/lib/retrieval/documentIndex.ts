@@ -0,0 +1,70 @@
+import { pdfjs } from 'react-pdf';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { pdfDocumentOptions } from '../pdfjs';
+import { textContentParts } from '../textLayer';
+import { createBM25Index } from './bm25';
+import { chunkPages, type PageText, type Passage } from './chunk';
+
+export interface RankedPassage extends Passage {
+  score: number;
+}
+
+export interface DocumentIndex {
+  pages: PageText[];
+  passages: Passage[];
+  search: (query: string, limit?: number) => RankedPassage[];
+}
+
+// Page text is the pdf.js text items joined up, with a newline at each end of line,
+// so passage offsets line up with what the text layer renders
+export async function extractPageTexts(pdf: PDFDocumentProxy): Promise<PageText[]> {
+  const pages: PageText[] = [];
+  for (let page = 1; page <= pdf.numPages; page++) {
+    const content = await (await pdf.getPage(page)).getTextContent();
+    pages.push({ page, text: textContentParts(content).join('') });
+  }
+  return pages;
+}
+
+export function buildDocumentIndex(pages: PageText[]): DocumentIndex {
+  const passages = chunkPages(pages);
+  const bm25 = createBM25Index(passages.map(passage => passage.text));
+
+  return {
+    pages,
+    passages,
+    search: (query, limit = 5) => bm25.search(query, limit).map(({ index, score }) => ({ ...passages[index], score }))
+  };
+}
+
+const indexes = new Map<string, Promise<DocumentIndex>>();
+
+// Loads the PDF on its own (independent of the viewer) and indexes it once per document.
+// Password-protected documents need the password the viewer opened them with.
+export function loadDocumentIndex(id: string, source: string | File, password?: string): Promise<DocumentIndex> {
+  const cached = indexes.get(id);
+  if (cached) return cached;
+
+  const loading = (async () => {
+    const data = typeof source === 'string' ? undefined : new Uint8Array(await source.arrayBuffer());
+    const pdf = await pdfjs.getDocument({
+      ...pdfDocumentOptions,
+      ...(data ? { data } : { url: source as string }),
+      password
+    }).promise;
+    try {
+      return buildDocumentIndex(await extractPageTexts(pdf));
+    } finally {
+      pdf.destroy();
+    }
+  })();
+
+  indexes.set(id, loading);
+  // Let a failed load be retried on the next question
+  loading.catch(() => indexes.delete(id));
+  return loading;
+}
+
+export function forgetDocumentIndex(id: string) {
+  indexes.delete(id);
+}
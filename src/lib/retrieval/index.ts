@@ -0,0 +1,10 @@
+export { createBM25Index, tokenize, type BM25Index, type BM25Result } from './bm25';
+export { chunkPages, type PageText, type Passage } from './chunk';
+export {
+  buildDocumentIndex,
+  extractPageTexts,
+  forgetDocumentIndex,
+  loadDocumentIndex,
+  type DocumentIndex,
+  type RankedPassage
+} from './documentIndex';
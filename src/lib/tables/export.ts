@@ -0,0 +1,39 @@
+import type { ExtractedTable, TableCell } from './extractTables';
+
+const escapeCsv = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// What a bare number in a spreadsheet would lose from the printed figure
+const unitOf = ({ number }: TableCell) => number?.currency ?? (number?.percentagePoints ? 'pp' : undefined);
+
+// Unit of each column whose heading can name it: every figure below shares one unit
+const columnUnits = ({ rows, columnCount }: ExtractedTable) =>
+  Array.from({ length: columnCount }, (_, column) => {
+    const heading = rows[0]?.[column];
+    if (!heading || heading.number) return undefined;
+    const units = new Set(rows.slice(1).filter(row => row[column]?.number).map(row => unitOf(row[column])));
+    return units.size === 1 ? [...units][0] : undefined;
+  });
+
+// Percentages as fractions, as spreadsheets store them; rounded to drop float noise like 0.14300000000000002
+const numberText = ({ value, percent }: NonNullable<TableCell['number']>) =>
+  String(percent ? Number((value / 100).toPrecision(15)) : value);
+
+// CSV with single figures written as plain numbers so spreadsheets treat them as such.
+// A currency or "pp" shared by a column goes into its heading; figures whose unit can't
+// be named there, and cells that also carry a bracketed prior figure, keep their printed text.
+export function tableToCsv(table: ExtractedTable): string {
+  const units = columnUnits(table);
+  return table.rows
+    .map((row, rowIndex) => row.map((cell, column) => {
+      const unit = units[column];
+      if (rowIndex === 0 && unit) return escapeCsv(`${cell.text} (${unit})`);
+      const { number } = cell;
+      return number && number.prior === undefined && unitOf(cell) === unit ? numberText(number) : escapeCsv(cell.text);
+    }).join(','))
+    .join('\r\n');
+}
+
+// Tab-separated text as printed, which pastes into spreadsheets cell by cell
+export function tableToTsv({ rows }: ExtractedTable): string {
+  return rows.map(row => row.map(cell => cell.text.replace(/[\t\n]/g, ' ')).join('\t')).join('\n');
+}
@@ -0,0 +1,226 @@
+import type { TextContent, TextItem } from 'pdfjs-dist/types/src/display/api';
+import { parseNumber, type ParsedNumber } from './parseNumber';
+
+// Groups positioned text items into tables: items sharing a baseline form a line,
+// runs of lines with several cells and at least one figure form a table, and
+// columns come from overlapping horizontal extents of the cells across its rows.
+
+export interface TableCell {
+  text: string;
+  number: ParsedNumber | null;
+}
+
+export interface ExtractedTable {
+  id: string;
+  page: number;
+  rows: TableCell[][];
+  columnCount: number;
+  // Area covered by the table in PDF units, y measured from the bottom of the page
+  bounds: { left: number; bottom: number; right: number; top: number };
+}
+
+interface PositionedText {
+  text: string;
+  left: number;
+  right: number;
+  y: number;
+  height: number;
+}
+
+interface Cell {
+  text: string;
+  left: number;
+  right: number;
+}
+
+interface Line {
+  y: number;
+  height: number;
+  cells: Cell[];
+}
+
+// Gap between items, relative to the font size, that starts a new cell
+const CELL_GAP = 0.8;
+// Vertical gap, relative to the font size, that ends a table
+const ROW_GAP = 3;
+const MIN_ROWS = 3;
+
+const toPositioned = (items: TextItem[]): PositionedText[] => items
+  .filter(item => item.str.trim())
+  .map(item => ({
+    text: item.str,
+    left: item.transform[4],
+    right: item.transform[4] + item.width,
+    y: item.transform[5],
+    height: item.height || Math.hypot(item.transform[2], item.transform[3])
+  }));
+
+const hasWords = (item: PositionedText) => /\p{L}{3}/u.test(item.text);
+
+// Reports often set two tables side by side. Look for an empty vertical strip in
+// the middle of the page whose right-hand side starts with labels; the gaps between
+// the figure columns of a single wide table are followed by figures instead.
+const splitRegions = (items: PositionedText[]): PositionedText[][] => {
+  if (items.length === 0) return [];
+  const minX = Math.min(...items.map(item => item.left));
+  const maxX = Math.max(...items.map(item => item.right));
+  // Running headers and footers may cross the gutter
+  const allowed = Math.max(2, items.length * 0.02);
+
+  const isGutter = (x: number) => items.filter(item => item.left < x && item.right > x).length <= allowed;
+  const startsWithLabels = (x: number) => {
+    const right = items.filter(item => item.left >= x);
+    if (right.length === 0 || !items.some(item => item.right <= x && hasWords(item))) return false;
+    const edge = Math.min(...right.map(item => item.left));
+    const firstColumn = right.filter(item => item.left < edge + 20);
+    return firstColumn.filter(hasWords).length / firstColumn.length >= 0.5;
+  };
+
+  for (let x = minX + (maxX - minX) * 0.3; x <= minX + (maxX - minX) * 0.7; x += 1) {
+    if (!isGutter(x)) continue;
+    // Split in the middle of the strip
+    let end = x;
+    while (isGutter(end + 1) && end + 1 <= maxX) end += 1;
+    const middle = (x + end) / 2;
+    if (startsWithLabels(middle)) {
+      return [items.filter(item => item.left < middle), items.filter(item => item.left >= middle)];
+    }
+    x = end;
+  }
+  return [items];
+};
+
+const groupLines = (positioned: PositionedText[]): Line[] => {
+  positioned = [...positioned].sort((a, b) => b.y - a.y || a.left - b.left);
+
+  const lines: Array<{ y: number; height: number; items: PositionedText[] }> = [];
+  for (const item of positioned) {
+    const line = lines.find(l => Math.abs(l.y - item.y) <= Math.max(l.height, item.height) * 0.4);
+    if (line) {
+      line.items.push(item);
+      line.height = Math.max(line.height, item.height);
+    } else {
+      lines.push({ y: item.y, height: item.height, items: [item] });
+    }
+  }
+
+  return lines
+    .sort((a, b) => b.y - a.y)
+    .map(({ y, height, items: lineItems }) => {
+      const cells: Cell[] = [];
+      for (const item of lineItems.sort((a, b) => a.left - b.left)) {
+        const last = cells[cells.length - 1];
+        if (last && item.left - last.right <= height * CELL_GAP) {
+          last.text += (item.left - last.right > height * 0.1 && !last.text.endsWith(' ') ? ' ' : '') + item.text;
+          last.right = Math.max(last.right, item.right);
+        } else {
+          cells.push({ text: item.text, left: item.left, right: item.right });
+        }
+      }
+      cells.forEach(cell => { cell.text = cell.text.replace(/\s+/g, ' ').trim(); });
+      return { y, height, cells };
+    });
+};
+
+const isTabular = (line: Line) =>
+  line.cells.length >= 2 && line.cells.some(cell => parseNumber(cell.text) !== null);
+
+// Column extents: the union of overlapping cell extents over the multi-cell rows
+const findColumns = (lines: Line[]) => {
+  const extents = lines
+    .filter(line => line.cells.length >= 2)
+    .flatMap(line => line.cells.map(({ left, right }) => ({ left, right })))
+    .sort((a, b) => a.left - b.left);
+
+  const columns: Array<{ left: number; right: number }> = [];
+  for (const extent of extents) {
+    const last = columns[columns.length - 1];
+    if (last && extent.left <= last.right) last.right = Math.max(last.right, extent.right);
+    else columns.push({ ...extent });
+  }
+  return columns;
+};
+
+const columnFor = (cell: Cell, columns: Array<{ left: number; right: number }>) => {
+  let best = 0;
+  let bestOverlap = -Infinity;
+  columns.forEach((column, index) => {
+    const overlap = Math.min(cell.right, column.right) - Math.max(cell.left, column.left);
+    if (overlap > bestOverlap) {
+      best = index;
+      bestOverlap = overlap;
+    }
+  });
+  return best;
+};
+
+const buildTable = (lines: Line[], page: number, index: number): ExtractedTable | null => {
+  const columns = findColumns(lines);
+  if (columns.length < 2) return null;
+
+  const rows = lines.map(line => {
+    const texts: string[] = Array(columns.length).fill('');
+    for (const cell of line.cells) {
+      // A lone cell is a label or section heading, which belongs in the first column
+      const column = line.cells.length === 1 ? 0 : columnFor(cell, columns);
+      texts[column] = texts[column] ? `${texts[column]} ${cell.text}` : cell.text;
+    }
+    return texts.map(text => ({ text, number: parseNumber(text) }));
+  });
+
+  const cells = lines.flatMap(line => line.cells);
+  return {
+    id: `${page}-${index}`,
+    page,
+    rows,
+    columnCount: columns.length,
+    bounds: {
+      left: Math.min(...cells.map(cell => cell.left)),
+      right: Math.max(...cells.map(cell => cell.right)),
+      top: lines[0].y + lines[0].height,
+      bottom: lines[lines.length - 1].y
+    }
+  };
+};
+
+const findTables = (lines: Line[], page: number, tables: ExtractedTable[]) => {
+  let run: Line[] = [];
+  const flush = () => {
+    // Trailing label lines aren't part of the table
+    while (run.length > 0 && !isTabular(run[run.length - 1])) run.pop();
+    if (run.filter(isTabular).length >= MIN_ROWS) {
+      const table = buildTable(run, page, tables.length);
+      if (table) tables.push(table);
+    }
+    run = [];
+  };
+
+  lines.forEach((line, index) => {
+    const previous = run[run.length - 1];
+    if (previous && previous.y - line.y > Math.max(previous.height, line.height) * ROW_GAP) flush();
+
+    if (isTabular(line)) {
+      // Pick up a column header row right above the first figures
+      const above = lines[index - 1];
+      if (run.length === 0 && above && above.cells.length >= 2 && above.y - line.y <= line.height * ROW_GAP) {
+        run.push(above);
+      }
+      run.push(line);
+    } else if (previous && isTabular(previous) && line.cells.length <= 2) {
+      // Section labels such as "Ocean" between blocks of figures
+      run.push(line);
+    } else {
+      flush();
+    }
+  });
+  flush();
+};
+
+export function extractTables({ items }: TextContent, page: number): ExtractedTable[] {
+  const positioned = toPositioned(items.filter((item): item is TextItem => 'str' in item));
+  const tables: ExtractedTable[] = [];
+  for (const region of splitRegions(positioned)) {
+    findTables(groupLines(region), page, tables);
+  }
+  return tables;
+}
@@ -0,0 +1,3 @@
+export { extractTables, type ExtractedTable, type TableCell } from './extractTables';
+export { parseNumber, type ParsedNumber } from './parseNumber';
+export { tableToCsv, tableToTsv } from './export';
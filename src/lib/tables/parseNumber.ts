@@ -0,0 +1,70 @@
+// Parses figures the way financial reports print them: "USD 2.3 bn", "1,234.5",
+// "(512)" for negatives, "-3.5%" and "13.1 (12.8)" with the prior period in brackets.
+
+export interface ParsedNumber {
+  // Value with any scale word applied, so "2.3 bn" is 2,300,000,000
+  value: number;
+  // Bracketed figure following the main one, usually the prior period
+  prior?: number;
+  currency?: string;
+  percent?: boolean;
+  // Printed with "pp", a difference between two percentages
+  percentagePoints?: boolean;
+}
+
+const SCALES: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  mn: 1e6,
+  million: 1e6,
+  b: 1e9,
+  bn: 1e9,
+  billion: 1e9
+};
+
+const CURRENCY = String.raw`USD|EUR|DKK|GBP|[$€£]`;
+const AMOUNT = new RegExp(
+  String.raw`^(?<sign>[-−–+])?\s*(?:(?<currency>${CURRENCY})\s*)?(?<sign2>[-−–+])?\s*` +
+  String.raw`(?<number>\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?|\.\d+)\s*` +
+  String.raw`(?<scale>bn|billion|mn|million|thousand|[kmb])?\s*(?<percent>%|pp)?$`,
+  'i'
+);
+
+const parseAmount = (text: string): ParsedNumber | null => {
+  const match = AMOUNT.exec(text.trim());
+  if (!match?.groups) return null;
+
+  const { sign, sign2, currency, number, scale, percent } = match.groups;
+  const negative = [sign, sign2].some(s => s !== undefined && s !== '+');
+  const value = Number(number.replace(/,/g, '')) * (scale ? SCALES[scale.toLowerCase()] : 1);
+
+  return {
+    value: negative ? -value : value,
+    ...(currency && { currency: currency.toUpperCase() }),
+    ...(percent === '%' && { percent: true }),
+    ...(percent && percent !== '%' && { percentagePoints: true })
+  };
+};
+
+export function parseNumber(text: string): ParsedNumber | null {
+  const trimmed = text.replace(/\s+/g, ' ').trim();
+  if (!trimmed) return null;
+
+  // "(512)" on its own is the accounting way of writing a negative
+  const bracketed = /^\((.+)\)$/.exec(trimmed);
+  if (bracketed) {
+    const inner = parseAmount(bracketed[1]);
+    return inner && { ...inner, value: -inner.value };
+  }
+
+  // "13.1 (12.8)": current figure followed by the prior period
+  const withPrior = /^(.+?)\s*\((.+)\)$/.exec(trimmed);
+  if (withPrior) {
+    const current = parseAmount(withPrior[1]);
+    const prior = parseAmount(withPrior[2]);
+    if (current && prior) return { ...current, prior: prior.value };
+  }
+
+  return parseAmount(trimmed);
+}
@@ -0,0 +1,104 @@
+import type { TextContent } from 'pdfjs-dist/types/src/display/api';
+import type { TextMatch, TextPosition } from './textMatch';
+
+// Helpers for mapping text matches onto a rendered pdf.js text layer. Page text
+// is handled as "parts": one per text item plus a '\n' after each end of line,
+// which lines up one-to-one with the layer's text nodes and <br> elements.
+
+export type TextMatcher = (parts: string[]) => TextMatch[];
+
+// Highlight rectangle as fractions of the page size, so it stays put when zooming
+export interface HighlightRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface TextLayerMatch {
+  rects: HighlightRect[];
+  // Viewport rectangle of the first match, for scrolling
+  first: DOMRect | null;
+  count: number;
+}
+
+interface TextLayerPart {
+  text: string;
+  // null for line breaks
+  node: Text | null;
+}
+
+export function textContentParts({ items }: TextContent): string[] {
+  const parts: string[] = [];
+  for (const item of items) {
+    if (!('str' in item)) continue;
+    parts.push(item.str);
+    if (item.hasEOL) parts.push('\n');
+  }
+  return parts;
+}
+
+const collectLayerParts = (layer: Element): TextLayerPart[] => {
+  const parts: TextLayerPart[] = [];
+  const walker = document.createTreeWalker(layer, NodeFilter.SHOW_TEXT | NodeFilter.SHOW_ELEMENT);
+  let node: Node | null;
+  while ((node = walker.nextNode())) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      parts.push({ text: (node as Text).data, node: node as Text });
+    } else if (node.nodeName === 'BR') {
+      parts.push({ text: '\n', node: null });
+    }
+  }
+  return parts;
+};
+
+// Move a boundary off a line break onto the nearest text node
+const resolveBoundary = (parts: TextLayerPart[], { part, offset }: TextPosition, isEnd: boolean) => {
+  if (parts[part]?.node) return { node: parts[part].node as Text, offset };
+
+  const step = isEnd ? -1 : 1;
+  for (let index = part + step; index >= 0 && index < parts.length; index += step) {
+    const node = parts[index].node;
+    if (node) return { node, offset: isEnd ? node.length : 0 };
+  }
+  return null;
+};
+
+export function toPageRect(rect: DOMRect, page: DOMRect): HighlightRect {
+  return {
+    left: (rect.left - page.left) / page.width,
+    top: (rect.top - page.top) / page.height,
+    width: rect.width / page.width,
+    height: rect.height / page.height
+  };
+}
+
+// Runs the matcher over the page's text layer and measures each match
+export function matchTextLayer(pageElement: HTMLElement, matcher: TextMatcher): TextLayerMatch {
+  const layer = pageElement.querySelector('.react-pdf__Page__textContent');
+  if (!layer) return { rects: [], first: null, count: 0 };
+
+  const parts = collectLayerParts(layer);
+  const matches = matcher(parts.map(part => part.text));
+  const pageBox = pageElement.getBoundingClientRect();
+  const rects: HighlightRect[] = [];
+  let first: DOMRect | null = null;
+
+  for (const { start, end } of matches) {
+    const from = resolveBoundary(parts, start, false);
+    const to = resolveBoundary(parts, end, true);
+    if (!from || !to) continue;
+
+    const range = document.createRange();
+    range.setStart(from.node, from.offset);
+    range.setEnd(to.node, to.offset);
+
+    for (const rect of Array.from(range.getClientRects())) {
+      if (rect.width === 0 || rect.height === 0) continue;
+      rects.push(toPageRect(rect, pageBox));
+      first ??= rect;
+    }
+  }
+
+  return { rects, first, count: matches.length };
+}
@@ -0,0 +1,105 @@
+// Text matching that tolerates the way PDF text layers split and wrap text:
+// whitespace and hyphens that break words are ignored, typographic quotes and
+// dashes are folded, and every match is mapped back to exact character offsets
+// in the source parts.
+
+export interface TextPosition {
+  part: number;
+  offset: number;
+}
+
+export interface TextMatch {
+  start: TextPosition;
+  // Exclusive end position
+  end: TextPosition;
+}
+
+export interface NormalizedText {
+  text: string;
+  positions: TextPosition[];
+}
+
+// Characters dropped entirely before matching
+const IGNORED = /[\s\u00ad\u200b]/;
+// Hyphens, dashes and minus signs, all matched as '-' unless they break a word
+const DASH = /[-\u2010-\u2015\u2212]/;
+const LETTER = /\p{L}/u;
+
+const FOLDED: Record<string, string> = {
+  '‘': "'",
+  '’': "'",
+  '‚': "'",
+  '‛': "'",
+  '′': "'",
+  '“': '"',
+  '”': '"',
+  '„': '"',
+  '″': '"',
+  'ﬀ': 'ff',
+  'ﬁ': 'fi',
+  'ﬂ': 'fl',
+  'ﬃ': 'ffi',
+  'ﬄ': 'ffl'
+};
+
+const foldChar = (char: string, caseSensitive: boolean) => {
+  const folded = FOLDED[char] ?? char;
+  return caseSensitive ? folded : folded.toLowerCase();
+};
+
+// Concatenates the parts into one normalized string, remembering where each
+// normalized character came from
+export function normalizeText(parts: string[], caseSensitive = false): NormalizedText {
+  let text = '';
+  const positions: TextPosition[] = [];
+
+  const chars: Array<{ char: string; position: TextPosition }> = [];
+  parts.forEach((part, partIndex) => {
+    for (let offset = 0; offset < part.length; offset++) {
+      if (!IGNORED.test(part[offset])) chars.push({ char: part[offset], position: { part: partIndex, offset } });
+    }
+  });
+
+  chars.forEach(({ char, position }, index) => {
+    if (DASH.test(char)) {
+      // Between letters it is hyphenation, e.g. from a line break; elsewhere, such as a
+      // minus sign before a number, it changes the meaning and has to match
+      if (LETTER.test(chars[index - 1]?.char ?? '') && LETTER.test(chars[index + 1]?.char ?? '')) return;
+      text += '-';
+      positions.push(position);
+      return;
+    }
+    for (const out of foldChar(char, caseSensitive)) {
+      text += out;
+      positions.push(position);
+    }
+  });
+
+  return { text, positions };
+}
+
+// Normalizes a search string the same way the haystack is normalized
+export function normalizeQuery(query: string, caseSensitive = false): string {
+  return normalizeText([query], caseSensitive).text;
+}
+
+// Finds every non-overlapping occurrence of the query across the parts
+export function findTextMatches(parts: string[], query: string, caseSensitive = false): TextMatch[] {
+  const needle = normalizeQuery(query, caseSensitive);
+  if (!needle) return [];
+
+  const { text, positions } = normalizeText(parts, caseSensitive);
+  const matches: TextMatch[] = [];
+  let index = text.indexOf(needle);
+
+  while (index !== -1) {
+    const last = positions[index + needle.length - 1];
+    matches.push({
+      start: positions[index],
+      end: { part: last.part, offset: last.offset + 1 }
+    });
+    index = text.indexOf(needle, index + needle.length);
+  }
+
+  return matches;
+}
@@ -0,0 +1,70 @@
+import type { TextMatch, TextPosition } from './textMatch';
+
+// Find-in-document matching over a page's text parts, with the usual find bar
+// options. Unlike textMatch this works on the raw text, so regular expressions
+// and word boundaries behave as the user expects.
+
+export interface SearchOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+}
+
+export const defaultSearchOptions: SearchOptions = {
+  caseSensitive: false,
+  wholeWord: false,
+  regex: false
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Letters and digits for whole-word matching. Patterns are compiled without the `u` flag,
+// which would reject escapes users commonly write (such as \-), so \p{L} isn't available;
+// this covers ASCII word characters and the letter blocks of the Basic Multilingual Plane.
+const WORD_CHAR = '[\\w\\u00c0-\\u00d6\\u00d8-\\u00f6\\u00f8-\\u1fff\\u2c00-\\u2dff\\u3040-\\ud7ff\\uf900-\\ufdff\\ufe70-\\ufefe\\uff10-\\uff19\\uff21-\\uff3a\\uff41-\\uff5a]';
+
+// Builds the pattern for a query. Throws a SyntaxError for an invalid regex.
+export function buildSearchPattern(query: string, { caseSensitive, wholeWord, regex }: SearchOptions): RegExp | null {
+  if (!query.trim()) return null;
+
+  // Plain queries match across line breaks and runs of spaces
+  let source = regex ? query : query.trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+  if (wholeWord) source = `(?<!${WORD_CHAR})(?:${source})(?!${WORD_CHAR})`;
+
+  return new RegExp(source, `g${caseSensitive ? '' : 'i'}`);
+}
+
+const positionAt = (starts: number[], index: number): TextPosition => {
+  // Last part starting at or before the index
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (starts[mid] <= index) low = mid;
+    else high = mid - 1;
+  }
+  return { part: low, offset: index - starts[low] };
+};
+
+// Runs the pattern over the concatenated parts and maps each match back to them
+export function findPatternMatches(parts: string[], pattern: RegExp): TextMatch[] {
+  const starts: number[] = [];
+  let text = '';
+  for (const part of parts) {
+    starts.push(text.length);
+    text += part;
+  }
+  if (parts.length === 0) return [];
+
+  const matches: TextMatch[] = [];
+  for (const match of text.matchAll(pattern)) {
+    const length = match[0].length;
+    // Empty matches (e.g. /a*/) can't be highlighted
+    if (length === 0) continue;
+
+    const start = positionAt(starts, match.index);
+    const last = positionAt(starts, match.index + length - 1);
+    matches.push({ start, end: { part: last.part, offset: last.offset + 1 } });
+  }
+  return matches;
+}
@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_CHAT_API_URL?: string;
+  readonly VITE_CHAT_PROVIDER?: 'mock';
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
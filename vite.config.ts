@@ -1,12 +1,25 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import { viteStaticCopy } from 'vite-plugin-static-copy';
 import tailwindcss from 'tailwindcss';
 import autoprefixer from 'autoprefixer';
 import type { Plugin } from 'postcss';
 import path from 'path';
 
+const pdfjsDist = path.resolve(__dirname, 'node_modules/pdfjs-dist');
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    // pdf.js fetches these at runtime; serving them ourselves keeps the app working offline
+    // (see src/lib/pdfjs.ts)
+    viteStaticCopy({
+      targets: ['cmaps', 'standard_fonts', 'wasm', 'iccs'].map(dir => ({
+        src: `${pdfjsDist}/${dir}`,
+        dest: 'pdfjs'
+      }))
+    })
+  ],
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),